@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Goal" ADD COLUMN "accountId" TEXT;
+
+-- AlterTable
+ALTER TABLE "GoalContribution" ADD COLUMN "transactionId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GoalContribution_transactionId_key" ON "GoalContribution"("transactionId");
@@ -0,0 +1,8 @@
+-- DropIndex
+DROP INDEX "PeriodSnapshot_periodStart_key";
+
+-- AlterTable
+ALTER TABLE "PeriodSnapshot" ADD COLUMN "periodType" TEXT NOT NULL DEFAULT 'fortnight';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PeriodSnapshot_periodType_periodStart_key" ON "PeriodSnapshot"("periodType", "periodStart");
@@ -0,0 +1,19 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Achievement" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "metadata" TEXT,
+    "earnedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "seen" BOOLEAN NOT NULL DEFAULT false
+);
+INSERT INTO "new_Achievement" ("description", "earnedAt", "id", "key", "metadata", "seen", "title", "type") SELECT "description", "earnedAt", "id", "id", "metadata", "seen", "title", "type" FROM "Achievement";
+DROP TABLE "Achievement";
+ALTER TABLE "new_Achievement" RENAME TO "Achievement";
+CREATE UNIQUE INDEX "Achievement_key_key" ON "Achievement"("key");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
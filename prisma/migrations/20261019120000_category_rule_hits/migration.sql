@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "CategoryRule" ADD COLUMN "hitCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "CategoryRule" ADD COLUMN "lastMatchedAt" DATETIME;
@@ -0,0 +1,34 @@
+-- DropIndex
+DROP INDEX "CategoryRule_pattern_key";
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_CategoryRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "pattern" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "minAmount" DECIMAL,
+    "maxAmount" DECIMAL,
+    "direction" TEXT,
+    "accountId" TEXT,
+    "merchantPattern" TEXT,
+    "dayOfMonthMin" INTEGER,
+    "dayOfMonthMax" INTEGER,
+    "setNotes" TEXT,
+    "setExcluded" BOOLEAN,
+    "setTransfer" BOOLEAN,
+    "setCleanDescription" TEXT,
+    "confidence" REAL NOT NULL DEFAULT 1.0,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "lastMatchedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+INSERT INTO "new_CategoryRule" ("categoryId", "confidence", "createdAt", "hitCount", "id", "lastMatchedAt", "pattern", "source") SELECT "categoryId", "confidence", "createdAt", "hitCount", "id", "lastMatchedAt", "pattern", "source" FROM "CategoryRule";
+DROP TABLE "CategoryRule";
+ALTER TABLE "new_CategoryRule" RENAME TO "CategoryRule";
+CREATE INDEX "CategoryRule_pattern_idx" ON "CategoryRule"("pattern");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "fitId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transaction_accountId_fitId_key" ON "Transaction"("accountId", "fitId");
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "importBatchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "ImportBatch" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "accountId" TEXT NOT NULL,
+    "userId" TEXT,
+    "fileName" TEXT NOT NULL,
+    "fileHash" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "imported" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "invalid" INTEGER NOT NULL DEFAULT 0,
+    "linkedTransfers" INTEGER NOT NULL DEFAULT 0,
+    "balanceBefore" DECIMAL,
+    "balanceAfter" DECIMAL,
+    "rolledBackAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_importBatchId_idx" ON "Transaction"("importBatchId");
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_accountId_createdAt_idx" ON "ImportBatch"("accountId", "createdAt");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "fingerprint" TEXT;
+ALTER TABLE "Transaction" ADD COLUMN "runningBalance" DECIMAL;
+ALTER TABLE "Transaction" ADD COLUMN "duplicateOfId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transaction_accountId_fingerprint_idx" ON "Transaction"("accountId", "fingerprint");
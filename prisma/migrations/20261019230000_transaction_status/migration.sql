@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'posted';
+
+-- CreateIndex
+CREATE INDEX "Transaction_status_idx" ON "Transaction"("status");
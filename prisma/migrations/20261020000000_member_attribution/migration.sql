@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "memberId" TEXT;
+ALTER TABLE "Transaction" ADD COLUMN "memberSource" TEXT;
+
+-- AlterTable
+ALTER TABLE "Account" ADD COLUMN "ownerId" TEXT;
+
+-- AlterTable
+ALTER TABLE "CategoryRule" ADD COLUMN "setMemberId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Budget" ADD COLUMN "memberId" TEXT;
+
+-- DropIndex
+DROP INDEX "Budget_categoryId_period_startDate_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Budget_categoryId_period_startDate_memberId_key" ON "Budget"("categoryId", "period", "startDate", "memberId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_memberId_idx" ON "Transaction"("memberId");
@@ -0,0 +1,6 @@
+-- Installs from before roles registered everyone as "member". Promote the
+-- oldest user so the family has an admin.
+UPDATE "User"
+SET "role" = 'admin'
+WHERE "id" = (SELECT "id" FROM "User" ORDER BY "createdAt" ASC LIMIT 1)
+  AND NOT EXISTS (SELECT 1 FROM "User" WHERE "role" = 'admin');
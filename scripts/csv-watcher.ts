@@ -17,6 +17,10 @@
  *   2. Detect ING-format CSVs (has Date, Description, Credit/Debit or Amount columns)
  *   3. Auto-import them into the app via the API
  *   4. Move processed files to a "processed" subfolder to avoid re-importing
+ *
+ * It signs in as AUTH_EMAIL with AUTH_PASSWORD, or, when SERVICE_TOKEN is
+ * set (the same value as the app's), as the app's SERVICE_ACCOUNT_EMAIL
+ * account: a member without two-factor sign-in, kept for scripts.
  */
 
 import fs from "fs";
@@ -27,6 +31,9 @@ import os from "os";
 const APP_URL = process.env.APP_URL || "http://localhost:3000";
 const AUTH_EMAIL = process.env.AUTH_EMAIL || "admin@family.local";
 const AUTH_PASSWORD = process.env.AUTH_PASSWORD || "admin123";
+const SERVICE_TOKEN = process.env.SERVICE_TOKEN;
+// Stop waiting on an import job after this, so a stuck job can't stall the watcher
+const JOB_TIMEOUT_MS = 30 * 60 * 1000;
 
 function parseArgs() {
   const args = process.argv.slice(2);
@@ -57,7 +64,11 @@ async function login(): Promise<boolean> {
     const res = await fetch(`${APP_URL}/api/auth`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ email: AUTH_EMAIL, password: AUTH_PASSWORD }),
+      body: JSON.stringify(
+        SERVICE_TOKEN
+          ? { action: "service", token: SERVICE_TOKEN }
+          : { email: AUTH_EMAIL, password: AUTH_PASSWORD }
+      ),
     });
 
     if (!res.ok) {
@@ -119,10 +130,36 @@ async function importCSV(
   });
 
   const data = await res.json();
-  return {
-    ok: res.ok,
-    message: data.message || data.error || "Unknown response",
-  };
+  if (!res.ok || !data.jobId) {
+    return {
+      ok: res.ok,
+      message: data.message || data.error || "Unknown response",
+    };
+  }
+
+  // The import runs as a background job; wait for it to finish
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  for (;;) {
+    if (Date.now() > deadline) {
+      return {
+        ok: false,
+        message: `Timed out after ${JOB_TIMEOUT_MS / 60000}m waiting for job ${data.jobId}`,
+      };
+    }
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+    const jobRes = await fetch(`${APP_URL}/api/jobs?id=${data.jobId}`, {
+      headers: { Cookie: authCookie },
+    });
+    const { job, error } = await jobRes.json();
+    if (!job) return { ok: false, message: error || "Import job not found" };
+
+    if (job.status === "completed") {
+      return { ok: true, message: job.message || "Import complete" };
+    }
+    if (job.status === "failed" || job.status === "cancelled") {
+      return { ok: false, message: job.error || `Import ${job.status}` };
+    }
+  }
 }
 
 // --- CSV Detection ---
@@ -248,7 +285,7 @@ async function main() {
   if (!loggedIn) {
     console.error("\nFailed to authenticate. Check your credentials.");
     console.error(
-      "Set AUTH_EMAIL and AUTH_PASSWORD env vars, or use the default admin account."
+      "Set AUTH_EMAIL and AUTH_PASSWORD (or SERVICE_TOKEN) env vars, or use the default admin account."
     );
     process.exit(1);
   }
@@ -0,0 +1,114 @@
+/**
+ * Webhook Replay
+ *
+ * Re-sends stored Basiq webhook events to a running app, signed with the
+ * local BASIQ_WEBHOOK_SECRET, for testing the webhook handler.
+ *
+ * Usage:
+ *   npx tsx scripts/replay-webhook.ts --list
+ *   npx tsx scripts/replay-webhook.ts --id <eventId> [--fresh]
+ *
+ * Examples:
+ *   npx tsx scripts/replay-webhook.ts --list
+ *   npx tsx scripts/replay-webhook.ts --id msg_2abc
+ *   npx tsx scripts/replay-webhook.ts --id msg_2abc --fresh
+ *
+ * Without --fresh the event keeps its id, so an already-processed event
+ * should come back as a duplicate. --fresh sends it under a new id so the
+ * app handles it again.
+ */
+
+import { PrismaClient } from "@prisma/client";
+import { randomUUID } from "crypto";
+import { signWebhook } from "../src/lib/webhook-signature";
+
+const prisma = new PrismaClient();
+
+// --- Configuration ---
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const WEBHOOK_SECRET = process.env.BASIQ_WEBHOOK_SECRET || "";
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const config = { list: false, id: "", fresh: false };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--list") {
+      config.list = true;
+    } else if (args[i] === "--id" && args[i + 1]) {
+      config.id = args[++i];
+    } else if (args[i] === "--fresh") {
+      config.fresh = true;
+    }
+  }
+
+  return config;
+}
+
+async function listEvents() {
+  const events = await prisma.webhookEvent.findMany({
+    orderBy: { receivedAt: "desc" },
+    take: 20,
+  });
+  if (events.length === 0) {
+    console.log("  No stored webhook events.");
+    return;
+  }
+
+  for (const e of events) {
+    const state = e.processedAt ? "processed" : e.error ? `failed: ${e.error}` : "pending";
+    console.log(
+      `  ${e.eventId}  ${e.eventType}  ${e.receivedAt.toLocaleString()}  (${state})`
+    );
+  }
+}
+
+async function replay(eventId: string, fresh: boolean) {
+  const event = await prisma.webhookEvent.findUnique({ where: { eventId } });
+  if (!event) {
+    console.error(`Event ${eventId} not found. Use --list to see stored events.`);
+    process.exit(1);
+  }
+
+  const id = fresh ? `replay_${randomUUID()}` : event.eventId;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "webhook-id": id,
+    "webhook-timestamp": timestamp,
+  };
+  if (WEBHOOK_SECRET) {
+    headers["webhook-signature"] = signWebhook(WEBHOOK_SECRET, id, timestamp, event.payload);
+  } else {
+    console.log("  BASIQ_WEBHOOK_SECRET not set; sending unsigned");
+  }
+
+  console.log(`  Replaying ${event.eventType} as ${id}...`);
+  const res = await fetch(`${APP_URL}/api/webhooks/basiq`, {
+    method: "POST",
+    headers,
+    body: event.payload,
+  });
+  console.log(`  ${res.status} ${await res.text()}`);
+}
+
+// --- Entry Point ---
+async function main() {
+  const config = parseArgs();
+
+  if (config.list) {
+    await listEvents();
+  } else if (config.id) {
+    await replay(config.id, config.fresh);
+  } else {
+    console.error("Pass --list or --id <eventId>. See the usage notes at the top of this script.");
+    process.exit(1);
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error("Fatal error:", err);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
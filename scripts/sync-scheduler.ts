@@ -0,0 +1,248 @@
+/**
+ * Sync Scheduler
+ *
+ * Syncs all active Basiq bank connections on a fixed cadence, so bank
+ * transactions arrive without anyone pressing a button.
+ *
+ * Usage:
+ *   npx tsx scripts/sync-scheduler.ts [--interval <minutes>] [--once]
+ *
+ * Examples:
+ *   npx tsx scripts/sync-scheduler.ts
+ *   npx tsx scripts/sync-scheduler.ts --interval 60
+ *   npx tsx scripts/sync-scheduler.ts --once
+ *
+ * The scheduler will:
+ *   1. Queue a sync via the API (recorded as a "scheduled" SyncRun per connection)
+ *   2. Wait for the sync job to finish and print its result
+ *   3. Print each connection's last success/failure, flagging any that
+ *      need the account holder to re-consent with their bank
+ *   4. Sleep for the interval and repeat
+ *
+ * It signs in as AUTH_EMAIL with AUTH_PASSWORD, or, when SERVICE_TOKEN is
+ * set (the same value as the app's), as the app's SERVICE_ACCOUNT_EMAIL
+ * account: a member without two-factor sign-in, kept for scripts.
+ */
+
+// --- Configuration ---
+const APP_URL = process.env.APP_URL || "http://localhost:3000";
+const AUTH_EMAIL = process.env.AUTH_EMAIL || "admin@family.local";
+const AUTH_PASSWORD = process.env.AUTH_PASSWORD || "admin123";
+const SERVICE_TOKEN = process.env.SERVICE_TOKEN;
+// Stop waiting on a sync job after this, so a stuck job can't stall later runs
+const JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const config = {
+    intervalMinutes: parseInt(process.env.SYNC_INTERVAL_MINUTES || "") || 360,
+    once: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === "--interval" && args[i + 1]) {
+      config.intervalMinutes = parseInt(args[++i]) || config.intervalMinutes;
+    } else if (args[i] === "--once") {
+      config.once = true;
+    }
+  }
+
+  return config;
+}
+
+// --- Auth ---
+let authCookie = "";
+
+async function login(): Promise<boolean> {
+  try {
+    const res = await fetch(`${APP_URL}/api/auth`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(
+        SERVICE_TOKEN
+          ? { action: "service", token: SERVICE_TOKEN }
+          : { email: AUTH_EMAIL, password: AUTH_PASSWORD }
+      ),
+    });
+
+    if (!res.ok) {
+      console.error("Login failed:", await res.text());
+      return false;
+    }
+
+    // Extract the auth cookie from Set-Cookie header
+    const setCookie = res.headers.getSetCookie?.() || [];
+    for (const cookie of setCookie) {
+      if (cookie.startsWith("auth-token=")) {
+        authCookie = cookie.split(";")[0];
+        break;
+      }
+    }
+
+    if (!authCookie) {
+      console.error("No auth cookie received");
+      return false;
+    }
+
+    const data = await res.json();
+    console.log(`  Logged in as ${data.user.name} (${data.user.email})`);
+    return true;
+  } catch (err) {
+    console.error("Login error:", err);
+    return false;
+  }
+}
+
+// Fetch with the auth cookie, logging in again once if the session expired
+async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const send = () =>
+    fetch(`${APP_URL}${path}`, {
+      ...init,
+      headers: { ...init.headers, Cookie: authCookie },
+    });
+
+  const res = await send();
+  if (res.status !== 401 || !(await login())) return res;
+  return send();
+}
+
+// --- Sync ---
+interface SyncRunInfo {
+  status: string;
+  added: number;
+  updated: number;
+  error: string | null;
+  startedAt: string;
+}
+
+interface ConnectionInfo {
+  institutionName: string;
+  status: string;
+  lastSuccess: SyncRunInfo | null;
+  lastFailure: SyncRunInfo | null;
+  needsReconsent: boolean;
+}
+
+async function waitForJob(
+  jobId: string
+): Promise<{ ok: boolean; message: string }> {
+  const deadline = Date.now() + JOB_TIMEOUT_MS;
+  for (;;) {
+    if (Date.now() > deadline) {
+      return {
+        ok: false,
+        message: `Timed out after ${JOB_TIMEOUT_MS / 60000}m waiting for job ${jobId}`,
+      };
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5000));
+    const res = await apiFetch(`/api/jobs?id=${jobId}`);
+    const { job, error } = await res.json();
+    if (!job) return { ok: false, message: error || "Sync job not found" };
+
+    if (job.status === "completed") {
+      return { ok: true, message: job.message || "Sync complete" };
+    }
+    if (job.status === "failed" || job.status === "cancelled") {
+      return { ok: false, message: job.error || `Sync ${job.status}` };
+    }
+  }
+}
+
+async function printConnections() {
+  const res = await apiFetch("/api/connections");
+  const data = await res.json();
+  const connections: ConnectionInfo[] = (data.connections || []).filter(
+    (c: ConnectionInfo) => c.status !== "deleted"
+  );
+
+  for (const c of connections) {
+    const success = c.lastSuccess
+      ? `last success ${new Date(c.lastSuccess.startedAt).toLocaleString()} (+${c.lastSuccess.added}, ~${c.lastSuccess.updated})`
+      : "never synced";
+    console.log(`    ${c.institutionName}: ${success}`);
+
+    if (c.lastFailure && (!c.lastSuccess || c.lastFailure.startedAt > c.lastSuccess.startedAt)) {
+      console.log(
+        `      last failure ${new Date(c.lastFailure.startedAt).toLocaleString()}: ${c.lastFailure.error}`
+      );
+    }
+    if (c.needsReconsent) {
+      console.log("      Needs re-consent: reconnect this bank in the app");
+    }
+  }
+}
+
+async function runSync() {
+  console.log(`\n  [${new Date().toLocaleString()}] Starting scheduled sync...`);
+
+  try {
+    const res = await apiFetch("/api/sync", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ trigger: "scheduled" }),
+    });
+    const data = await res.json();
+
+    if (!res.ok) {
+      console.error(`  Sync failed: ${data.error || "Unknown response"}`);
+      return;
+    }
+
+    const result = data.jobId
+      ? await waitForJob(data.jobId)
+      : { ok: true, message: data.message };
+    if (result.ok) {
+      console.log(`  ${result.message}`);
+    } else {
+      console.error(`  Sync failed: ${result.message}`);
+    }
+
+    await printConnections();
+  } catch (err) {
+    console.error("  Sync error:", err);
+  }
+}
+
+// --- Entry Point ---
+async function main() {
+  const config = parseArgs();
+
+  console.log("=================================");
+  console.log("  Sync Scheduler");
+  console.log("=================================");
+  console.log(
+    config.once ? "  Running once" : `  Sync interval: ${config.intervalMinutes}m`
+  );
+  console.log(`  App URL: ${APP_URL}`);
+  console.log("");
+
+  // Login
+  console.log("  Logging in...");
+  const loggedIn = await login();
+  if (!loggedIn) {
+    console.error("\nFailed to authenticate. Check your credentials.");
+    console.error(
+      "Set AUTH_EMAIL and AUTH_PASSWORD (or SERVICE_TOKEN) env vars, or use the default admin account."
+    );
+    process.exit(1);
+  }
+
+  await runSync();
+  if (config.once) return;
+
+  console.log(`\n  Next sync in ${config.intervalMinutes} minutes (Ctrl+C to stop)`);
+
+  // Schedule the next run only once this one has finished, so a slow bank
+  // never causes two syncs to overlap
+  const scheduleNext = () =>
+    setTimeout(async () => {
+      await runSync();
+      scheduleNext();
+    }, config.intervalMinutes * 60 * 1000);
+  scheduleNext();
+}
+
+main().catch((err) => {
+  console.error("Fatal error:", err);
+  process.exit(1);
+});
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireAuth } from "@/lib/auth";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
+import { recordAudit, ACCOUNT_AUDIT_FIELDS } from "@/lib/audit";
+import { applyAccountOwner } from "@/lib/members";
 import { decimalToNumber } from "@/types";
 import type { AccountSummary } from "@/types";
 
@@ -30,6 +33,7 @@ export async function GET() {
     type: a.type,
     currency: a.currency,
     institutionName: a.connection?.institutionName || a.institution || "Manual",
+    ownerId: a.ownerId,
   }));
 
   return NextResponse.json({ accounts: data });
@@ -38,9 +42,9 @@ export async function GET() {
 // POST /api/accounts — create a manual account
 export async function POST(request: NextRequest) {
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const body = await request.json();
@@ -73,20 +77,24 @@ export async function POST(request: NextRequest) {
       type: account.type,
       currency: account.currency,
       institutionName: account.institution || "Manual",
+      ownerId: account.ownerId,
     },
   });
 }
 
-// PATCH /api/accounts — update account details (name, balance, type, etc.)
+// PATCH /api/accounts — update account details (name, balance, type, etc.).
+// Changing ownerId re-attributes the account's transactions that weren't
+// attributed by hand or by a rule. Changes are audited.
 export async function PATCH(request: NextRequest) {
+  let auth: JWTPayload;
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    auth = await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const body = await request.json();
-  const { id, name, balance, type, institution } = body;
+  const { id, name, balance, type, institution, ownerId } = body;
 
   if (!id) {
     return NextResponse.json(
@@ -100,15 +108,35 @@ export async function PATCH(request: NextRequest) {
   if (balance !== undefined) updateData.balance = balance;
   if (type !== undefined) updateData.type = type;
   if (institution !== undefined) updateData.institution = institution;
+  if (ownerId !== undefined) {
+    if (ownerId) {
+      const owner = await prisma.user.findUnique({ where: { id: ownerId } });
+      if (!owner) {
+        return NextResponse.json({ error: "Family member not found" }, { status: 404 });
+      }
+    }
+    updateData.ownerId = ownerId || null;
+  }
 
   if (Object.keys(updateData).length === 0) {
     return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
   }
 
+  const before = await prisma.account.findUnique({ where: { id } });
+  if (!before) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
   const account = await prisma.account.update({
     where: { id },
     data: updateData,
   });
+  await recordAudit(auth.userId, ACCOUNT_AUDIT_FIELDS, [
+    { entityType: "account", entityId: id, action: "update", before, after: account },
+  ]);
+  if (ownerId !== undefined) {
+    await applyAccountOwner(account.id, account.ownerId, auth.userId);
+  }
 
   return NextResponse.json({
     account: {
@@ -120,16 +148,18 @@ export async function PATCH(request: NextRequest) {
       type: account.type,
       currency: account.currency,
       institutionName: account.institution || "Manual",
+      ownerId: account.ownerId,
     },
   });
 }
 
 // DELETE /api/accounts?id=xxx
 export async function DELETE(request: NextRequest) {
+  let auth: JWTPayload;
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    auth = await requireRole("admin");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const { searchParams } = new URL(request.url);
@@ -142,6 +172,11 @@ export async function DELETE(request: NextRequest) {
     );
   }
 
+  const account = await prisma.account.findUnique({ where: { id } });
+  if (!account) {
+    return NextResponse.json({ error: "Account not found" }, { status: 404 });
+  }
+
   // Check if account has transactions
   const txCount = await prisma.transaction.count({
     where: { accountId: id },
@@ -156,6 +191,9 @@ export async function DELETE(request: NextRequest) {
     );
   }
 
+  await recordAudit(auth.userId, ACCOUNT_AUDIT_FIELDS, [
+    { entityType: "account", entityId: id, action: "delete", before: account, after: null },
+  ]);
   await prisma.account.delete({ where: { id } });
   return NextResponse.json({ success: true });
 }
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
+import { evaluateAchievements, toAchievementItem } from "@/lib/achievements";
+
+// GET /api/achievements?unseen=true — earned badges, newest first
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const unseenOnly = searchParams.get("unseen") === "true";
+
+  const achievements = await prisma.achievement.findMany({
+    where: unseenOnly ? { seen: false } : undefined,
+    orderBy: { earnedAt: "desc" },
+  });
+
+  return NextResponse.json({ achievements: achievements.map(toAchievementItem) });
+}
+
+// POST /api/achievements — re-run the rules and return any new badges
+export async function POST() {
+  try {
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  try {
+    const awarded = await evaluateAchievements();
+    return NextResponse.json({ awarded: awarded.map(toAchievementItem) });
+  } catch (err) {
+    console.error("Achievement evaluation error:", err);
+    return NextResponse.json(
+      { error: "Failed to evaluate achievements" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/achievements — mark badges as seen ({ ids } or all if omitted)
+export async function PATCH(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { ids } = body;
+
+  if (ids !== undefined && !Array.isArray(ids)) {
+    return NextResponse.json({ error: "ids must be an array" }, { status: 400 });
+  }
+
+  const result = await prisma.achievement.updateMany({
+    where: ids ? { id: { in: ids } } : { seen: false },
+    data: { seen: true },
+  });
+
+  return NextResponse.json({ updated: result.count });
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
+import { buildAdvisorContext, getAdvisorResponse } from "@/lib/advisor";
+import { getClaudeClient } from "@/lib/claude";
+import type { ChatMessage } from "@/lib/claude";
+
+function parseMessages(raw: string): ChatMessage[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// GET /api/advisor?id=xxx — chat history (latest conversation if no id)
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  const chats = await prisma.advisorChat.findMany({
+    orderBy: { createdAt: "desc" },
+  });
+
+  const current = id ? chats.find((c) => c.id === id) : chats[0];
+  if (id && !current) {
+    return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    chats: chats.map((c) => ({
+      id: c.id,
+      summary: c.summary,
+      createdAt: c.createdAt.toISOString(),
+      messageCount: parseMessages(c.messages).length,
+    })),
+    chat: current
+      ? {
+          id: current.id,
+          summary: current.summary,
+          createdAt: current.createdAt.toISOString(),
+          messages: parseMessages(current.messages),
+        }
+      : null,
+  });
+}
+
+// POST /api/advisor — send a message (starts a new conversation if no chatId)
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  if (!getClaudeClient()) {
+    return NextResponse.json(
+      { error: "ANTHROPIC_API_KEY not configured" },
+      { status: 400 }
+    );
+  }
+
+  const body = await request.json();
+  const { message, chatId } = body;
+
+  if (!message || typeof message !== "string" || !message.trim()) {
+    return NextResponse.json({ error: "Message is required" }, { status: 400 });
+  }
+
+  let history: ChatMessage[] = [];
+  if (chatId) {
+    const chat = await prisma.advisorChat.findUnique({ where: { id: chatId } });
+    if (!chat) {
+      return NextResponse.json({ error: "Chat not found" }, { status: 404 });
+    }
+    history = parseMessages(chat.messages);
+  }
+
+  const context = await buildAdvisorContext();
+  const reply = await getAdvisorResponse(message.trim(), context, history);
+
+  const now = new Date().toISOString();
+  const messages: ChatMessage[] = [
+    ...history,
+    { role: "user", content: message.trim(), createdAt: now },
+    { role: "assistant", content: reply, createdAt: new Date().toISOString() },
+  ];
+
+  const chat = chatId
+    ? await prisma.advisorChat.update({
+        where: { id: chatId },
+        data: { messages: JSON.stringify(messages) },
+      })
+    : await prisma.advisorChat.create({
+        data: {
+          messages: JSON.stringify(messages),
+          // The opening question doubles as the conversation title
+          summary: message.trim().slice(0, 80),
+        },
+      });
+
+  return NextResponse.json({
+    chat: {
+      id: chat.id,
+      summary: chat.summary,
+      createdAt: chat.createdAt.toISOString(),
+      messages,
+    },
+    reply,
+  });
+}
@@ -1,6 +1,9 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
 import { requireAuth } from "@/lib/auth";
+import { computeHealthScore } from "@/lib/health";
+import { getMonthDates } from "@/lib/periods";
+import { memberWhere } from "@/lib/members";
 import Decimal from "decimal.js";
 
 /**
@@ -13,21 +16,34 @@ import Decimal from "decimal.js";
  * - Salary auto-detection
  * - Large one-off expense detection
  * - Spending performance scores
+ * - Spending per family member
+ *
+ * ?pending=exclude leaves out card holds that haven't posted yet.
+ * ?member= narrows everything to one family member's transactions (or
+ * "unassigned" for shared ones).
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     await requireAuth();
   } catch {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
+  const { searchParams } = new URL(request.url);
+  const includePending = searchParams.get("pending") !== "exclude";
+  const member = searchParams.get("member");
+
   // Get all transactions (up to 12 months for trends)
   const twelveMonthsAgo = new Date();
   twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12);
 
-  const [allTransactions, accounts, categories] = await Promise.all([
+  const [allTransactions, accounts, categories, members] = await Promise.all([
     prisma.transaction.findMany({
-      where: { date: { gte: twelveMonthsAgo } },
+      where: {
+        date: { gte: twelveMonthsAgo },
+        ...(!includePending && { status: "posted" }),
+        ...memberWhere(member),
+      },
       include: {
         category: { select: { name: true, colour: true, icon: true } },
         account: { select: { name: true, type: true } },
@@ -41,6 +57,7 @@ export async function GET() {
       select: { id: true, name: true, colour: true, icon: true },
       orderBy: { sortOrder: "asc" },
     }),
+    prisma.user.findMany({ select: { id: true, name: true } }),
   ]);
 
   // ─── Monthly Trend (Income vs Expenses vs Savings) ───
@@ -144,6 +161,43 @@ export async function GET() {
       percentage: totalCatSpend > 0 ? Math.round((c.amount / totalCatSpend) * 100) : 0,
     }));
 
+  // ─── Spending per family member (last 90 days, by category) ───
+  const memberNames = new Map(members.map((m) => [m.id, m.name]));
+  const memberTotals: Record<
+    string,
+    { memberId: string | null; name: string; amount: number; categories: Record<string, number> }
+  > = {};
+
+  for (const tx of allTransactions) {
+    if (tx.date < ninetyDaysAgo) continue;
+    // Excluded as budgets and allowances do, so the two agree
+    if (tx.isTransfer || tx.isExcluded || tx.direction !== "debit") continue;
+    const key = tx.memberId || "unassigned";
+    if (!memberTotals[key]) {
+      memberTotals[key] = {
+        memberId: tx.memberId,
+        name: (tx.memberId && memberNames.get(tx.memberId)) || "Shared",
+        amount: 0,
+        categories: {},
+      };
+    }
+    const amt = Number(new Decimal(tx.amount.toString()).abs());
+    const catName = tx.category?.name || "Uncategorised";
+    memberTotals[key].amount += amt;
+    memberTotals[key].categories[catName] = (memberTotals[key].categories[catName] || 0) + amt;
+  }
+
+  const memberSpend = Object.values(memberTotals)
+    .sort((a, b) => b.amount - a.amount)
+    .map((m) => ({
+      memberId: m.memberId,
+      name: m.name,
+      amount: Math.round(m.amount),
+      categories: Object.entries(m.categories)
+        .sort(([, a], [, b]) => b - a)
+        .map(([name, amount]) => ({ name, amount: Math.round(amount) })),
+    }));
+
   // ─── Salary Auto-Detection ───
   // Look for recurring credits of similar amounts (within 5%) in transaction accounts
   const creditTxs = allTransactions.filter(
@@ -241,31 +295,26 @@ export async function GET() {
     });
 
   // ─── Spending Performance Scores ───
-  // Compare each month's non-essential spending to calculate improvement
-  const monthKeys = Object.keys(monthlyMap).sort();
-  const scores: { month: string; score: number }[] = [];
-
-  for (const month of monthKeys) {
-    const data = monthlyMap[month];
-    if (data.income === 0) continue;
-
-    // Score = how well you managed spending relative to income
-    // savings rate, loan payments, and spending discipline
-    const savingsRate = (data.income - data.expenses) / data.income;
-    const score = Math.max(0, Math.min(100, Math.round(
-      savingsRate * 60 + // 60% weight on savings rate
-      (data.savings > 0 ? 15 : 0) + // 15 points for active saving
-      (data.loans > 0 ? 10 : 0) + // 10 points for making loan payments
-      (data.expenses < data.income ? 15 : 0) // 15 points for living within means
-    )));
-
-    scores.push({
-      month,
-      score,
-    });
-  }
+  // Closed months use the health score frozen on their snapshot; the
+  // current month is scored live
+  const [monthSnapshots, currentHealth] = await Promise.all([
+    prisma.periodSnapshot.findMany({
+      where: { periodType: "month", periodStart: { gte: twelveMonthsAgo } },
+      orderBy: { periodStart: "asc" },
+      select: { periodStart: true, healthScore: true },
+    }),
+    computeHealthScore("month", getMonthDates()),
+  ]);
+
+  const monthKey = (d: Date) =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+  const scores: { month: string; score: number }[] = monthSnapshots.map((s) => ({
+    month: monthKey(s.periodStart),
+    score: s.healthScore,
+  }));
+  scores.push({ month: monthKey(new Date()), score: currentHealth.score });
 
-  const currentScore = scores.length > 0 ? scores[scores.length - 1].score : 0;
+  const currentScore = currentHealth.score;
   const previousScore = scores.length > 1 ? scores[scores.length - 2].score : 0;
 
   // ─── Daily spending for the current month (sparkline) ───
@@ -315,6 +364,7 @@ export async function GET() {
     monthlyTrend,
     weeklySpend,
     categoryBreakdown,
+    memberSpend,
     salaryInfo,
     largeExpenses,
     dailySpend: dailySpendArray,
@@ -326,6 +376,7 @@ export async function GET() {
       previousScore,
       trend: currentScore > previousScore ? "improving" : currentScore < previousScore ? "declining" : "stable",
       monthlyScores: scores,
+      components: currentHealth.components,
     },
     accounts: accounts.map((a) => ({
       name: a.name,
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { toAuditItems } from "@/lib/audit";
+import type { Prisma } from "@prisma/client";
+
+const MAX_PAGE_SIZE = 200;
+
+// A query parameter as a whole number of at least 1, or the fallback
+function positiveInt(value: string | null, fallback: number): number {
+  const n = parseInt(value || "");
+  return Number.isFinite(n) && n >= 1 ? n : fallback;
+}
+
+/**
+ * GET /api/audit
+ *
+ * Query the audit log, newest first. Filters: ?entityType= (transaction,
+ * account, category, rule), ?entityId=, ?userId=, ?fromDate=, ?toDate=,
+ * with ?page= and ?pageSize= pagination. The log is read-only.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const entityType = searchParams.get("entityType");
+  const entityId = searchParams.get("entityId");
+  const userId = searchParams.get("userId");
+  const fromDate = searchParams.get("fromDate");
+  const toDate = searchParams.get("toDate");
+  const page = positiveInt(searchParams.get("page"), 1);
+  const pageSize = Math.min(positiveInt(searchParams.get("pageSize"), 50), MAX_PAGE_SIZE);
+
+  const from = fromDate ? new Date(fromDate) : null;
+  const to = toDate ? new Date(toDate) : null;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+  }
+
+  const where: Prisma.AuditEntryWhereInput = {};
+  if (entityType) where.entityType = entityType;
+  if (entityId) where.entityId = entityId;
+  if (userId) where.userId = userId;
+  if (from || to) {
+    where.createdAt = {
+      ...(from && { gte: from }),
+      ...(to && { lte: to }),
+    };
+  }
+
+  const [entries, total] = await Promise.all([
+    prisma.auditEntry.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.auditEntry.count({ where }),
+  ]);
+
+  return NextResponse.json({
+    data: await toAuditItems(entries),
+    total,
+    page,
+    pageSize,
+    totalPages: Math.ceil(total / pageSize),
+  });
+}
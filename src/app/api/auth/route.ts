@@ -3,21 +3,115 @@ import { prisma } from "@/lib/db";
 import {
   verifyPassword,
   hashPassword,
-  setAuthCookie,
-  clearAuthCookie,
+  startSession,
+  endSession,
   getAuthFromCookie,
+  clientIp,
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  serviceAccountEmail,
+  serviceTokenMatches,
 } from "@/lib/auth";
+import { loginLockout, lockedOutResponse, recordLoginAttempt } from "@/lib/lockout";
+import { checkSecondFactor, twoFactorEnabled } from "@/lib/two-factor";
+import type { User } from "@prisma/client";
 
-// POST /api/auth — login, register, or logout
+async function signedIn(user: User, request: NextRequest, ip: string) {
+  await recordLoginAttempt(user.email, ip, true);
+  await startSession(user, request);
+
+  return NextResponse.json({
+    user: {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+    },
+  });
+}
+
+// POST /api/auth — login, register, or logout. Logging out revokes this
+// device's session; repeated failed logins lock the email or IP out.
+// With two-factor on, login answers { twoFactorRequired, challenge } and
+// no session is started until { action: "verify-2fa", challenge, code }.
+// Scripts sign in with { action: "service", token } and the server's
+// SERVICE_TOKEN instead, as the SERVICE_ACCOUNT_EMAIL account only.
 export async function POST(request: NextRequest) {
   const body = await request.json();
   const { action } = body;
 
   if (action === "logout") {
-    await clearAuthCookie();
+    await endSession();
     return NextResponse.json({ success: true });
   }
 
+  if (action === "service") {
+    const { token } = body;
+    if (!token) {
+      return NextResponse.json({ error: "Token is required" }, { status: 400 });
+    }
+
+    const email = serviceAccountEmail();
+    if (!email) {
+      return NextResponse.json(
+        { error: "No service account is configured" },
+        { status: 401 }
+      );
+    }
+
+    const ip = clientIp(request);
+    const retryAfter = await loginLockout(email, ip);
+    if (retryAfter !== null) return lockedOutResponse(retryAfter);
+
+    const user = await prisma.user.findUnique({ where: { email } });
+    if (!user || !serviceTokenMatches(String(token))) {
+      await recordLoginAttempt(email, ip, false);
+      return NextResponse.json({ error: "Invalid service token" }, { status: 401 });
+    }
+
+    // The token stands in for a password only; it mustn't open an account
+    // that 2FA or admin rights are meant to guard
+    if (user.role === "admin" || twoFactorEnabled(user)) {
+      return NextResponse.json(
+        { error: "The service account can't be an admin or use two-factor sign-in" },
+        { status: 403 }
+      );
+    }
+
+    return signedIn(user, request, ip);
+  }
+
+  if (action === "verify-2fa") {
+    const { challenge, code } = body;
+    if (!challenge || !code) {
+      return NextResponse.json(
+        { error: "Challenge and code are required" },
+        { status: 400 }
+      );
+    }
+
+    const userId = verifyTwoFactorChallenge(challenge);
+    const user = userId ? await prisma.user.findUnique({ where: { id: userId } }) : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: "Sign-in expired. Enter your password again." },
+        { status: 401 }
+      );
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const ip = clientIp(request);
+    const retryAfter = await loginLockout(user.email, ip);
+    if (retryAfter !== null) return lockedOutResponse(retryAfter);
+
+    if (!(await checkSecondFactor(user, String(code)))) {
+      await recordLoginAttempt(user.email, ip, false);
+      return NextResponse.json({ error: "Invalid code" }, { status: 401 });
+    }
+
+    return signedIn(user, request, ip);
+  }
+
   if (action === "register") {
     const { name, email, password } = body;
     if (!name || !email || !password) {
@@ -34,6 +128,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Registration bootstraps the first admin on an empty database; after
+    // that, admins add family members from Settings
+    const hasUsers = (await prisma.user.count()) > 0;
+    if (hasUsers) {
+      return NextResponse.json(
+        { error: "Registration is closed. Ask a family admin to add you." },
+        { status: 403 }
+      );
+    }
+
     // Check if email already exists
     const existing = await prisma.user.findUnique({ where: { email } });
     if (existing) {
@@ -49,15 +153,11 @@ export async function POST(request: NextRequest) {
         name,
         email,
         passwordHash,
-        role: "member",
+        role: "admin",
       },
     });
 
-    await setAuthCookie({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    await startSession(user, request);
 
     return NextResponse.json({
       user: {
@@ -78,43 +178,41 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  const ip = clientIp(request);
+  const retryAfter = await loginLockout(email, ip);
+  if (retryAfter !== null) return lockedOutResponse(retryAfter);
+
   const user = await prisma.user.findUnique({ where: { email } });
-  if (!user) {
+  const valid = user ? await verifyPassword(password, user.passwordHash) : false;
+  if (!user || !valid) {
+    await recordLoginAttempt(email, ip, false);
     return NextResponse.json(
       { error: "Invalid email or password" },
       { status: 401 }
     );
   }
 
-  const valid = await verifyPassword(password, user.passwordHash);
-  if (!valid) {
-    return NextResponse.json(
-      { error: "Invalid email or password" },
-      { status: 401 }
-    );
+  // The password alone doesn't reset the lockout when a code is still owed
+  if (twoFactorEnabled(user)) {
+    return NextResponse.json({
+      twoFactorRequired: true,
+      challenge: signTwoFactorChallenge(user.id),
+    });
   }
 
-  await setAuthCookie({
-    userId: user.id,
-    email: user.email,
-    role: user.role,
-  });
-
-  return NextResponse.json({
-    user: {
-      id: user.id,
-      name: user.name,
-      email: user.email,
-      role: user.role,
-    },
-  });
+  return signedIn(user, request, ip);
 }
 
-// GET /api/auth — get current user
+// GET /api/auth — get current user. Logged out, reports whether
+// registration is still open (no users yet).
 export async function GET() {
   const auth = await getAuthFromCookie();
   if (!auth) {
-    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    const hasUsers = (await prisma.user.count()) > 0;
+    return NextResponse.json(
+      { error: "Not authenticated", registrationOpen: !hasUsers },
+      { status: 401 }
+    );
   }
 
   const user = await prisma.user.findUnique({
@@ -1,10 +1,40 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireAuth } from "@/lib/auth";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
 import { decimalToNumber } from "@/types";
+import type { BudgetItem } from "@/types";
+import type { Budget } from "@prisma/client";
 import Decimal from "decimal.js";
 
-// GET /api/budgets — get all budgets
+type BudgetWithCategory = Budget & {
+  category: { id: string; name: string; icon: string | null; colour: string | null };
+};
+
+function toBudgetItem(b: BudgetWithCategory, memberNames: Map<string, string>): BudgetItem {
+  return {
+    id: b.id,
+    categoryId: b.categoryId,
+    categoryName: b.category.name,
+    categoryIcon: b.category.icon,
+    categoryColour: b.category.colour,
+    amount: decimalToNumber(b.amount),
+    period: b.period,
+    startDate: b.startDate.toISOString(),
+    memberId: b.memberId,
+    memberName: b.memberId ? memberNames.get(b.memberId) ?? null : null,
+  };
+}
+
+async function memberNamesFor(budgets: Budget[]): Promise<Map<string, string>> {
+  const ids = [...new Set(budgets.flatMap((b) => (b.memberId ? [b.memberId] : [])))];
+  const members = await prisma.user.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, name: true },
+  });
+  return new Map(members.map((m) => [m.id, m.name]));
+}
+
+// GET /api/budgets — get all budgets, household and personal allowances
 export async function GET() {
   try {
     await requireAuth();
@@ -21,31 +51,26 @@ export async function GET() {
     orderBy: { category: { sortOrder: "asc" } },
   });
 
+  const memberNames = await memberNamesFor(budgets);
   const data = budgets.map((b) => ({
-    id: b.id,
-    categoryId: b.categoryId,
-    categoryName: b.category.name,
-    categoryIcon: b.category.icon,
-    categoryColour: b.category.colour,
-    amount: decimalToNumber(b.amount),
-    period: b.period,
-    startDate: b.startDate.toISOString(),
+    ...toBudgetItem(b, memberNames),
     endDate: b.endDate?.toISOString() || null,
   }));
 
   return NextResponse.json({ budgets: data });
 }
 
-// POST /api/budgets — create or update budget
+// POST /api/budgets — create or update budget. With a memberId it's that
+// member's personal allowance for the category.
 export async function POST(request: NextRequest) {
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const body = await request.json();
-  const { categoryId, amount, period, startDate } = body;
+  const { categoryId, amount, period, startDate, memberId } = body;
 
   if (!categoryId || amount === undefined || !startDate) {
     return NextResponse.json(
@@ -54,41 +79,49 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  if (memberId) {
+    const member = await prisma.user.findUnique({ where: { id: memberId } });
+    if (!member) {
+      return NextResponse.json({ error: "Family member not found" }, { status: 404 });
+    }
+  }
+
   const budgetPeriod = period || process.env.BUDGET_PERIOD || "fortnightly";
   const start = new Date(startDate);
+  const include = {
+    category: {
+      select: { id: true, name: true, icon: true, colour: true },
+    },
+  };
 
-  const budget = await prisma.budget.upsert({
+  // Not an upsert: SQLite treats a null memberId as distinct in the unique
+  // index, so household budgets are matched by hand
+  const existing = await prisma.budget.findFirst({
     where: {
-      categoryId_period_startDate: {
-        categoryId,
-        period: budgetPeriod,
-        startDate: start,
-      },
-    },
-    update: { amount: new Decimal(amount) },
-    create: {
       categoryId,
-      amount: new Decimal(amount),
       period: budgetPeriod,
       startDate: start,
-    },
-    include: {
-      category: {
-        select: { id: true, name: true, icon: true, colour: true },
-      },
+      memberId: memberId || null,
     },
   });
+  const budget = existing
+    ? await prisma.budget.update({
+        where: { id: existing.id },
+        data: { amount: new Decimal(amount) },
+        include,
+      })
+    : await prisma.budget.create({
+        data: {
+          categoryId,
+          amount: new Decimal(amount),
+          period: budgetPeriod,
+          startDate: start,
+          memberId: memberId || null,
+        },
+        include,
+      });
 
   return NextResponse.json({
-    budget: {
-      id: budget.id,
-      categoryId: budget.categoryId,
-      categoryName: budget.category.name,
-      categoryIcon: budget.category.icon,
-      categoryColour: budget.category.colour,
-      amount: decimalToNumber(budget.amount),
-      period: budget.period,
-      startDate: budget.startDate.toISOString(),
-    },
+    budget: toBudgetItem(budget, await memberNamesFor([budget])),
   });
 }
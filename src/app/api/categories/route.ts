@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireAuth } from "@/lib/auth";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
+import {
+  recordAudit,
+  CATEGORY_AUDIT_FIELDS,
+  RULE_AUDIT_FIELDS,
+  TRANSACTION_AUDIT_FIELDS,
+} from "@/lib/audit";
+import { ruleActions } from "@/lib/rules";
 
 // GET /api/categories
 export async function GET() {
@@ -25,9 +33,9 @@ export async function GET() {
 // POST /api/categories — create
 export async function POST(request: NextRequest) {
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const body = await request.json();
@@ -54,9 +62,9 @@ export async function POST(request: NextRequest) {
 // PATCH /api/categories — update
 export async function PATCH(request: NextRequest) {
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const body = await request.json();
@@ -82,12 +90,14 @@ export async function PATCH(request: NextRequest) {
   return NextResponse.json({ category });
 }
 
-// DELETE /api/categories?id=xxx&reassignTo=yyy
+// DELETE /api/categories?id=xxx&reassignTo=yyy — the category and each
+// reassigned transaction and rule are audited
 export async function DELETE(request: NextRequest) {
+  let auth: JWTPayload;
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    auth = await requireRole("admin");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const { searchParams } = new URL(request.url);
@@ -110,6 +120,32 @@ export async function DELETE(request: NextRequest) {
     );
   }
 
+  if (reassignTo && !(await prisma.category.findUnique({ where: { id: reassignTo } }))) {
+    return NextResponse.json({ error: "Category not found" }, { status: 404 });
+  }
+
+  // Audit while the category still exists, so entries keep its name
+  const affected = await prisma.transaction.findMany({
+    where: { categoryId: id },
+    select: { id: true },
+  });
+  await recordAudit(
+    auth.userId,
+    TRANSACTION_AUDIT_FIELDS,
+    affected.map((tx) => ({
+      entityType: "transaction",
+      entityId: tx.id,
+      action: "category-deleted",
+      before: { categoryId: id },
+      after: { categoryId: reassignTo || null },
+    }))
+  );
+  if (category) {
+    await recordAudit(auth.userId, CATEGORY_AUDIT_FIELDS, [
+      { entityType: "category", entityId: id, action: "delete", before: category, after: null },
+    ]);
+  }
+
   // Reassign transactions if specified
   if (reassignTo) {
     await prisma.transaction.updateMany({
@@ -123,6 +159,32 @@ export async function DELETE(request: NextRequest) {
     });
   }
 
+  // Rules follow their transactions to reassignTo. Without one, a rule
+  // that did nothing but set this category goes; others keep their other
+  // actions.
+  const rules = await prisma.categoryRule.findMany({ where: { categoryId: id } });
+  const emptied = rules.filter(
+    (r) => !reassignTo && Object.keys(ruleActions(r)).length === 1
+  );
+  await recordAudit(
+    auth.userId,
+    RULE_AUDIT_FIELDS,
+    rules.map((r) => ({
+      entityType: "rule",
+      entityId: r.id,
+      action: "category-deleted",
+      before: r,
+      after: emptied.includes(r) ? null : { ...r, categoryId: reassignTo || null },
+    }))
+  );
+  await prisma.categoryRule.deleteMany({
+    where: { id: { in: emptied.map((r) => r.id) } },
+  });
+  await prisma.categoryRule.updateMany({
+    where: { categoryId: id },
+    data: { categoryId: reassignTo || null },
+  });
+
   // Delete related budgets
   await prisma.budget.deleteMany({ where: { categoryId: id } });
 
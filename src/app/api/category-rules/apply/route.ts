@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireRole, authErrorResponse } from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
+import { reapplyRule } from "@/lib/rules";
+
+/**
+ * POST /api/category-rules/apply
+ *
+ * Re-apply a rule's actions to transaction history. Transactions
+ * categorised by hand keep their category.
+ */
+export async function POST(request: NextRequest) {
+  let auth: JWTPayload;
+  try {
+    auth = await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const { id } = body;
+
+  if (!id) {
+    return NextResponse.json({ error: "Rule ID required" }, { status: 400 });
+  }
+
+  const rule = await prisma.categoryRule.findUnique({ where: { id } });
+  if (!rule) {
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+  }
+
+  const updated = await reapplyRule(id, auth.userId);
+
+  return NextResponse.json({ updated });
+}
@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
+import { recordAudit, RULE_AUDIT_FIELDS } from "@/lib/audit";
+import {
+  RULE_ORDER,
+  hasRuleAction,
+  parseRuleFields,
+} from "@/lib/rules";
+import type { RuleFields } from "@/lib/rules";
+import type { CategoryRuleItem } from "@/types";
+import type { CategoryRule } from "@prisma/client";
+
+async function toRuleItems(rules: CategoryRule[]): Promise<CategoryRuleItem[]> {
+  const [categories, accounts, members] = await Promise.all([
+    prisma.category.findMany({
+      where: { id: { in: rules.flatMap((r) => (r.categoryId ? [r.categoryId] : [])) } },
+      select: { id: true, name: true, icon: true },
+    }),
+    prisma.account.findMany({
+      where: { id: { in: rules.flatMap((r) => (r.accountId ? [r.accountId] : [])) } },
+      select: { id: true, name: true },
+    }),
+    prisma.user.findMany({
+      where: { id: { in: rules.flatMap((r) => (r.setMemberId ? [r.setMemberId] : [])) } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const categoryById = new Map(categories.map((c) => [c.id, c]));
+  const accountById = new Map(accounts.map((a) => [a.id, a]));
+  const memberById = new Map(members.map((m) => [m.id, m]));
+
+  return rules.map((r) => {
+    const category = r.categoryId ? categoryById.get(r.categoryId) : undefined;
+    return {
+      id: r.id,
+      pattern: r.pattern,
+      categoryId: r.categoryId,
+      categoryName: category?.name || null,
+      categoryIcon: category?.icon || null,
+      priority: r.priority,
+      direction: r.direction,
+      accountId: r.accountId,
+      accountName: r.accountId ? accountById.get(r.accountId)?.name || null : null,
+      merchantPattern: r.merchantPattern,
+      minAmount: r.minAmount !== null ? Number(r.minAmount) : null,
+      maxAmount: r.maxAmount !== null ? Number(r.maxAmount) : null,
+      dayOfMonthMin: r.dayOfMonthMin,
+      dayOfMonthMax: r.dayOfMonthMax,
+      setNotes: r.setNotes,
+      setExcluded: r.setExcluded,
+      setTransfer: r.setTransfer,
+      setCleanDescription: r.setCleanDescription,
+      setMemberId: r.setMemberId,
+      setMemberName: r.setMemberId ? memberById.get(r.setMemberId)?.name || null : null,
+      confidence: r.confidence,
+      source: r.source,
+      hitCount: r.hitCount,
+      lastMatchedAt: r.lastMatchedAt?.toISOString() || null,
+      createdAt: r.createdAt.toISOString(),
+    };
+  });
+}
+
+/**
+ * Check that the category, account and member a rule names exist, and
+ * that a given confidence is between 0 and 1. Returns the error response,
+ * or null if the rule is fine.
+ */
+async function checkRuleFields(
+  fields: RuleFields,
+  confidence: unknown
+): Promise<NextResponse | null> {
+  if (
+    confidence !== undefined &&
+    !(Number.isFinite(Number(confidence)) && Number(confidence) >= 0 && Number(confidence) <= 1)
+  ) {
+    return NextResponse.json(
+      { error: "Confidence must be between 0 and 1" },
+      { status: 400 }
+    );
+  }
+
+  if (fields.categoryId) {
+    const category = await prisma.category.findUnique({
+      where: { id: fields.categoryId },
+    });
+    if (!category) {
+      return NextResponse.json({ error: "Category not found" }, { status: 404 });
+    }
+  }
+
+  if (fields.accountId) {
+    const account = await prisma.account.findUnique({
+      where: { id: fields.accountId },
+    });
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+  }
+
+  if (fields.setMemberId) {
+    const member = await prisma.user.findUnique({
+      where: { id: fields.setMemberId },
+    });
+    if (!member) {
+      return NextResponse.json({ error: "Family member not found" }, { status: 404 });
+    }
+  }
+
+  return null;
+}
+
+// GET /api/category-rules — all rules in the order they're evaluated
+export async function GET() {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const rules = await prisma.categoryRule.findMany({ orderBy: RULE_ORDER });
+
+  return NextResponse.json({ rules: await toRuleItems(rules) });
+}
+
+// POST /api/category-rules — create
+export async function POST(request: NextRequest) {
+  let auth: JWTPayload;
+  try {
+    auth = await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const parsed = parseRuleFields(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const { fields } = parsed;
+
+  if (!hasRuleAction(fields)) {
+    return NextResponse.json(
+      { error: "A rule needs at least one action" },
+      { status: 400 }
+    );
+  }
+
+  const problem = await checkRuleFields(fields, body.confidence);
+  if (problem) return problem;
+
+  const rule = await prisma.categoryRule.create({
+    data: {
+      ...fields,
+      confidence: body.confidence !== undefined ? Number(body.confidence) : 1.0,
+      source: "manual",
+    },
+  });
+  await recordAudit(auth.userId, RULE_AUDIT_FIELDS, [
+    { entityType: "rule", entityId: rule.id, action: "create", before: null, after: rule },
+  ]);
+
+  const [item] = await toRuleItems([rule]);
+  return NextResponse.json({ rule: item });
+}
+
+// PATCH /api/category-rules — replace a rule's conditions and actions
+export async function PATCH(request: NextRequest) {
+  let auth: JWTPayload;
+  try {
+    auth = await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const { id } = body;
+
+  if (!id) {
+    return NextResponse.json({ error: "Rule ID required" }, { status: 400 });
+  }
+
+  const rule = await prisma.categoryRule.findUnique({ where: { id } });
+  if (!rule) {
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+  }
+
+  const parsed = parseRuleFields(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  if (!hasRuleAction(parsed.fields)) {
+    return NextResponse.json(
+      { error: "A rule needs at least one action" },
+      { status: 400 }
+    );
+  }
+
+  const problem = await checkRuleFields(parsed.fields, body.confidence);
+  if (problem) return problem;
+
+  const updated = await prisma.categoryRule.update({
+    where: { id },
+    data: {
+      ...parsed.fields,
+      ...(body.confidence !== undefined && { confidence: Number(body.confidence) }),
+    },
+  });
+  await recordAudit(auth.userId, RULE_AUDIT_FIELDS, [
+    { entityType: "rule", entityId: id, action: "update", before: rule, after: updated },
+  ]);
+
+  const [item] = await toRuleItems([updated]);
+  return NextResponse.json({ rule: item });
+}
+
+// DELETE /api/category-rules?id=xxx
+export async function DELETE(request: NextRequest) {
+  let auth: JWTPayload;
+  try {
+    auth = await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json({ error: "Rule ID required" }, { status: 400 });
+  }
+
+  const rule = await prisma.categoryRule.findUnique({ where: { id } });
+  if (!rule) {
+    return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+  }
+
+  await recordAudit(auth.userId, RULE_AUDIT_FIELDS, [
+    { entityType: "rule", entityId: id, action: "delete", before: rule, after: null },
+  ]);
+  await prisma.categoryRule.delete({ where: { id } });
+
+  return NextResponse.json({ success: true });
+}
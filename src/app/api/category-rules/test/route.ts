@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { compileConditions, parseRuleFields } from "@/lib/rules";
+import { decimalToNumber } from "@/types";
+import type { RuleMatchPreview } from "@/types";
+
+const PREVIEW_LIMIT = 50;
+
+/**
+ * POST /api/category-rules/test
+ *
+ * Preview which existing transactions a rule's conditions would match,
+ * without saving anything. Returns the total count and the most recent matches.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const parsed = parseRuleFields(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const transactions = await prisma.transaction.findMany({
+    orderBy: { date: "desc" },
+    select: {
+      id: true,
+      date: true,
+      description: true,
+      amount: true,
+      direction: true,
+      accountId: true,
+      merchantName: true,
+      account: { select: { name: true } },
+      category: { select: { name: true } },
+    },
+  });
+
+  const applies = compileConditions(parsed.fields);
+  const matched = transactions.filter(applies);
+
+  const matches: RuleMatchPreview[] = matched.slice(0, PREVIEW_LIMIT).map((tx) => ({
+    id: tx.id,
+    date: tx.date.toISOString(),
+    description: tx.description,
+    amount: decimalToNumber(tx.amount),
+    direction: tx.direction,
+    accountName: tx.account.name,
+    categoryName: tx.category?.name || null,
+  }));
+
+  return NextResponse.json({ total: matched.length, matches });
+}
@@ -1,9 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireAuth } from "@/lib/auth";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
 import { basiqClient } from "@/lib/basiq";
+import type { BankConnectionInfo, SyncRunInfo } from "@/types";
+import type { SyncRun } from "@prisma/client";
+
+function toSyncRunInfo(run: SyncRun | null): SyncRunInfo | null {
+  if (!run) return null;
+  return {
+    id: run.id,
+    trigger: run.trigger,
+    status: run.status as SyncRunInfo["status"],
+    added: run.added,
+    updated: run.updated,
+    merged: run.merged,
+    error: run.error,
+    startedAt: run.startedAt.toISOString(),
+    finishedAt: run.finishedAt?.toISOString() || null,
+  };
+}
 
-// GET /api/connections — list all bank connections
+// GET /api/connections — list all bank connections with their last
+// successful and last failed sync
 export async function GET() {
   try {
     await requireAuth();
@@ -16,14 +34,29 @@ export async function GET() {
     orderBy: { createdAt: "desc" },
   });
 
-  const data = connections.map((c) => ({
-    id: c.id,
-    institutionName: c.institutionName,
-    institutionId: c.institutionId,
-    status: c.status,
-    lastSyncAt: c.lastSyncAt?.toISOString() || null,
-    accountCount: c.accounts.length,
-  }));
+  const data: BankConnectionInfo[] = await Promise.all(
+    connections.map(async (c) => {
+      const [lastSuccess, lastFailure] = await Promise.all(
+        ["success", "failed"].map((status) =>
+          prisma.syncRun.findFirst({
+            where: { connectionId: c.id, status },
+            orderBy: { startedAt: "desc" },
+          })
+        )
+      );
+      return {
+        id: c.id,
+        institutionName: c.institutionName,
+        institutionId: c.institutionId,
+        status: c.status,
+        lastSyncAt: c.lastSyncAt?.toISOString() || null,
+        accountCount: c.accounts.length,
+        lastSuccess: toSyncRunInfo(lastSuccess),
+        lastFailure: toSyncRunInfo(lastFailure),
+        needsReconsent: c.status === "reauth_required",
+      };
+    })
+  );
 
   return NextResponse.json({ connections: data });
 }
@@ -31,9 +64,9 @@ export async function GET() {
 // POST /api/connections — get consent URL or create connection
 export async function POST(request: NextRequest) {
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    await requireRole("admin");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   try {
@@ -71,6 +104,18 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      // Re-consenting an existing connection brings it back into the sync
+      const existing = await prisma.bankConnection.findFirst({
+        where: { basiqConnectionId },
+      });
+      if (existing) {
+        const connection = await prisma.bankConnection.update({
+          where: { id: existing.id },
+          data: { status: "active" },
+        });
+        return NextResponse.json({ connection });
+      }
+
       const connection = await prisma.bankConnection.create({
         data: {
           basiqUserId,
@@ -97,9 +142,9 @@ export async function POST(request: NextRequest) {
 // DELETE /api/connections?id=xxx
 export async function DELETE(request: NextRequest) {
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    await requireRole("admin");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const { searchParams } = new URL(request.url);
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireRole, authErrorResponse } from "@/lib/auth";
+import { addContribution, toGoalItem } from "@/lib/goals";
+import { evaluateAchievements } from "@/lib/achievements";
+import Decimal from "decimal.js";
+
+/**
+ * POST /api/goals/contribute
+ *
+ * Add a contribution to a goal. Negative amounts record a withdrawal.
+ * Milestones and completion are updated to match the new balance.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const { goalId, amount, date, note } = body;
+
+  if (!goalId || amount === undefined || Number(amount) === 0 || !Number.isFinite(Number(amount))) {
+    return NextResponse.json(
+      { error: "goalId and a non-zero amount are required" },
+      { status: 400 }
+    );
+  }
+
+  const contributedAt = date ? new Date(date) : undefined;
+  if (contributedAt && isNaN(contributedAt.getTime())) {
+    return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+  }
+
+  const goal = await prisma.goal.findUnique({ where: { id: goalId } });
+  if (!goal) {
+    return NextResponse.json({ error: "Goal not found" }, { status: 404 });
+  }
+
+  await addContribution(goalId, new Decimal(amount), {
+    date: contributedAt,
+    note: note || null,
+  });
+
+  // The contribution is saved either way; badges can catch up next time
+  try {
+    await evaluateAchievements();
+  } catch (err) {
+    console.error("Achievement evaluation error:", err);
+  }
+
+  const updated = await prisma.goal.findUniqueOrThrow({
+    where: { id: goalId },
+    include: { contributions: true, milestones: true },
+  });
+
+  return NextResponse.json({ goal: toGoalItem(updated) });
+}
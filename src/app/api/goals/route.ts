@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
+import {
+  addContribution,
+  createMilestones,
+  horizonFromTargetDate,
+  refundGoalFromTransfers,
+  syncGoalProgress,
+  toGoalItem,
+} from "@/lib/goals";
+import Decimal from "decimal.js";
+
+// NaN and Infinity would reach Decimal and the database as a 500
+const isPositiveAmount = (value: unknown) =>
+  Number.isFinite(Number(value)) && Number(value) > 0;
+
+// GET /api/goals — list all goals with progress and projections
+export async function GET() {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const goals = await prisma.goal.findMany({
+    include: { contributions: true, milestones: true },
+    orderBy: [{ isCompleted: "asc" }, { priority: "asc" }, { createdAt: "asc" }],
+  });
+
+  return NextResponse.json({ goals: goals.map(toGoalItem) });
+}
+
+// POST /api/goals — create
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const {
+    name,
+    targetAmount,
+    currentAmount,
+    targetDate,
+    horizon,
+    priority,
+    icon,
+    colour,
+    accountId,
+  } = body;
+
+  if (!name || !isPositiveAmount(targetAmount)) {
+    return NextResponse.json(
+      { error: "Name and a positive targetAmount are required" },
+      { status: 400 }
+    );
+  }
+
+  if (accountId) {
+    const account = await prisma.account.findUnique({ where: { id: accountId } });
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+  }
+
+  const target = targetDate ? new Date(targetDate) : null;
+  if (target && isNaN(target.getTime())) {
+    return NextResponse.json({ error: "Invalid targetDate" }, { status: 400 });
+  }
+
+  const goal = await prisma.goal.create({
+    data: {
+      name,
+      targetAmount: new Decimal(targetAmount),
+      targetDate: target,
+      horizon: horizon || horizonFromTargetDate(target),
+      priority: priority || 1,
+      icon: icon || null,
+      colour: colour || null,
+      accountId: accountId || null,
+    },
+  });
+  await createMilestones(goal.id);
+
+  // Money already saved goes in as an opening contribution so that
+  // currentAmount always equals the sum of contributions
+  if (currentAmount && isPositiveAmount(currentAmount)) {
+    await addContribution(goal.id, new Decimal(currentAmount), {
+      note: "Opening balance",
+    });
+  }
+
+  if (accountId) {
+    await refundGoalFromTransfers(goal.id);
+  }
+
+  const created = await prisma.goal.findUniqueOrThrow({
+    where: { id: goal.id },
+    include: { contributions: true, milestones: true },
+  });
+
+  return NextResponse.json({ goal: toGoalItem(created) });
+}
+
+// PATCH /api/goals — update goal details or mark milestones as celebrated
+export async function PATCH(request: NextRequest) {
+  try {
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const {
+    id,
+    name,
+    targetAmount,
+    targetDate,
+    horizon,
+    priority,
+    icon,
+    colour,
+    accountId,
+    celebrateMilestones,
+  } = body;
+
+  if (!id) {
+    return NextResponse.json({ error: "Goal ID required" }, { status: 400 });
+  }
+
+  const existing = await prisma.goal.findUnique({ where: { id } });
+  if (!existing) {
+    return NextResponse.json({ error: "Goal not found" }, { status: 404 });
+  }
+
+  if (targetAmount !== undefined && !isPositiveAmount(targetAmount)) {
+    return NextResponse.json(
+      { error: "targetAmount must be positive" },
+      { status: 400 }
+    );
+  }
+
+  if (targetDate && isNaN(new Date(targetDate).getTime())) {
+    return NextResponse.json({ error: "Invalid targetDate" }, { status: 400 });
+  }
+
+  if (accountId) {
+    const account = await prisma.account.findUnique({ where: { id: accountId } });
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+  }
+
+  const updateData: Record<string, unknown> = {};
+  if (name !== undefined) updateData.name = name;
+  if (targetAmount !== undefined) updateData.targetAmount = new Decimal(targetAmount);
+  if (targetDate !== undefined) {
+    updateData.targetDate = targetDate ? new Date(targetDate) : null;
+    if (horizon === undefined) {
+      updateData.horizon = horizonFromTargetDate(targetDate ? new Date(targetDate) : null);
+    }
+  }
+  if (horizon !== undefined) updateData.horizon = horizon;
+  if (priority !== undefined) updateData.priority = priority;
+  if (icon !== undefined) updateData.icon = icon;
+  if (colour !== undefined) updateData.colour = colour;
+  if (accountId !== undefined) updateData.accountId = accountId || null;
+
+  if (Object.keys(updateData).length > 0) {
+    await prisma.goal.update({ where: { id }, data: updateData });
+  }
+
+  // Linking to a different account swaps which transfers fund the goal
+  if (accountId !== undefined && (accountId || null) !== existing.accountId) {
+    await refundGoalFromTransfers(id);
+  } else if (targetAmount !== undefined) {
+    // A new target changes which milestones have been reached
+    await syncGoalProgress(id);
+  }
+
+  if (celebrateMilestones) {
+    await prisma.goalMilestone.updateMany({
+      where: { goalId: id, reachedAt: { not: null }, celebrated: false },
+      data: { celebrated: true },
+    });
+  }
+
+  const goal = await prisma.goal.findUniqueOrThrow({
+    where: { id },
+    include: { contributions: true, milestones: true },
+  });
+
+  return NextResponse.json({ goal: toGoalItem(goal) });
+}
+
+// DELETE /api/goals?id=xxx
+export async function DELETE(request: NextRequest) {
+  try {
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json({ error: "Goal ID required" }, { status: 400 });
+  }
+
+  const existing = await prisma.goal.findUnique({ where: { id } });
+  if (!existing) {
+    return NextResponse.json({ error: "Goal not found" }, { status: 404 });
+  }
+
+  await prisma.goalContribution.deleteMany({ where: { goalId: id } });
+  await prisma.goalMilestone.deleteMany({ where: { goalId: id } });
+  await prisma.goal.deleteMany({ where: { id } });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAuth } from "@/lib/auth";
+import { computeHealthScore } from "@/lib/health";
+import { getCurrentFortnightDates, getMonthDates } from "@/lib/periods";
+
+// GET /api/health-score?period=monthly — weighted household health score for the current period
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const monthly = searchParams.get("period") === "monthly";
+
+  // Default: fortnightly
+  const period = monthly ? getMonthDates() : getCurrentFortnightDates();
+
+  try {
+    const health = await computeHealthScore(
+      monthly ? "month" : "fortnight",
+      period
+    );
+    return NextResponse.json(health);
+  } catch (err) {
+    console.error("Health score error:", err);
+    return NextResponse.json(
+      { error: "Failed to compute health score" },
+      { status: 500 }
+    );
+  }
+}
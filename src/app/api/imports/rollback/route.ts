@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireRole, authErrorResponse } from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
+import { rollbackImportBatch } from "@/lib/imports";
+
+/**
+ * POST /api/imports/rollback
+ *
+ * Undo an import batch: delete its transactions and unlink any transfers
+ * they were matched with.
+ */
+export async function POST(request: NextRequest) {
+  let auth: JWTPayload;
+  try {
+    auth = await requireRole("admin");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const { id } = body;
+
+  if (!id) {
+    return NextResponse.json({ error: "Batch ID required" }, { status: 400 });
+  }
+
+  const batch = await prisma.importBatch.findUnique({ where: { id } });
+  if (!batch) {
+    return NextResponse.json({ error: "Import not found" }, { status: 404 });
+  }
+  if (batch.rolledBackAt) {
+    return NextResponse.json({ error: "Import already rolled back" }, { status: 400 });
+  }
+
+  // Rows are still arriving while the import runs
+  if (batch.jobId) {
+    const job = await prisma.job.findUnique({ where: { id: batch.jobId } });
+    if (job && (job.status === "queued" || job.status === "running")) {
+      return NextResponse.json(
+        { error: "This import is still running. Roll it back once it has finished." },
+        { status: 409 }
+      );
+    }
+  }
+
+  try {
+    const result = await rollbackImportBatch(id, auth.userId);
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error("Import rollback error:", err);
+    return NextResponse.json(
+      { error: "Failed to roll back import" },
+      { status: 500 }
+    );
+  }
+}
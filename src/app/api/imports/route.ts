@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { toImportBatchItem } from "@/lib/imports";
+
+// GET /api/imports?accountId=&limit=50 — import history, newest first
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const accountId = searchParams.get("accountId");
+  const limit = parseInt(searchParams.get("limit") || "50");
+
+  const batches = await prisma.importBatch.findMany({
+    where: accountId ? { accountId } : {},
+    orderBy: { createdAt: "desc" },
+    take: limit > 0 ? limit : undefined,
+  });
+
+  const [accounts, users] = await Promise.all([
+    prisma.account.findMany({
+      where: { id: { in: [...new Set(batches.map((b) => b.accountId))] } },
+      select: { id: true, name: true },
+    }),
+    prisma.user.findMany({
+      where: {
+        id: { in: [...new Set(batches.map((b) => b.userId).filter((id): id is string => !!id))] },
+      },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const accountNames = new Map(accounts.map((a) => [a.id, a.name]));
+  const userNames = new Map(users.map((u) => [u.id, u.name]));
+
+  return NextResponse.json({
+    batches: batches.map((b) =>
+      toImportBatchItem(
+        b,
+        accountNames.get(b.accountId) || null,
+        (b.userId && userNames.get(b.userId)) || null
+      )
+    ),
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireRole, authErrorResponse } from "@/lib/auth";
+import { cancelJob, toJobItem } from "@/lib/jobs";
+
+/**
+ * POST /api/jobs/cancel
+ *
+ * Cancel a queued or running job. A running job stops at its next progress
+ * checkpoint, so anything it has already written stays.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const { id } = body;
+
+  if (!id) {
+    return NextResponse.json({ error: "Job ID required" }, { status: 400 });
+  }
+
+  try {
+    const cancelled = await cancelJob(id);
+    if (!cancelled) {
+      return NextResponse.json({ error: "Job has already finished" }, { status: 400 });
+    }
+    const job = await prisma.job.findUnique({ where: { id } });
+    return NextResponse.json({ job: job && toJobItem(job) });
+  } catch (err) {
+    console.error("Job cancel error:", err);
+    return NextResponse.json(
+      { error: "Failed to cancel job" },
+      { status: 500 }
+    );
+  }
+}
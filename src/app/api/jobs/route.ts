@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { startJobWorker, toJobItem } from "@/lib/jobs";
+
+/**
+ * GET /api/jobs?id=
+ *
+ * One job's status and progress, or the most recent jobs when no id is
+ * given. Polling also restarts the worker if the server has restarted since
+ * the job was queued.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const limit = Math.min(parseInt(searchParams.get("limit") || "20", 10) || 20, 100);
+
+  try {
+    startJobWorker();
+
+    if (id) {
+      const job = await prisma.job.findUnique({ where: { id } });
+      if (!job) {
+        return NextResponse.json({ error: "Job not found" }, { status: 404 });
+      }
+      return NextResponse.json({ job: toJobItem(job) });
+    }
+
+    const jobs = await prisma.job.findMany({
+      orderBy: { createdAt: "desc" },
+      take: limit,
+    });
+    return NextResponse.json({ jobs: jobs.map(toJobItem) });
+  } catch (err) {
+    console.error("Jobs error:", err);
+    return NextResponse.json(
+      { error: "Failed to fetch jobs" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth } from "@/lib/auth";
+import { startJobWorker, toJobItem } from "@/lib/jobs";
+
+export const dynamic = "force-dynamic";
+
+// How often the job table is checked for changes
+const STREAM_INTERVAL_MS = 500;
+// Comment line sent while nothing changes, so proxies keep the stream open
+const HEARTBEAT_MS = 15_000;
+
+const FINISHED = ["completed", "failed", "cancelled"];
+
+/**
+ * GET /api/jobs/stream?id=  or  ?type=import,sync
+ *
+ * Server-sent events with live job progress. Each change is sent as a `job`
+ * event carrying the JobItem. With an id the stream follows that one job
+ * and ends when it finishes; with types it follows every job of those types
+ * that is queued, running, or changes while the stream is open.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const types = (searchParams.get("type") || "").split(",").filter(Boolean);
+  if (!id && types.length === 0) {
+    return NextResponse.json({ error: "Job ID or type required" }, { status: 400 });
+  }
+
+  startJobWorker();
+
+  const since = new Date();
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let open = true;
+      request.signal.addEventListener("abort", () => {
+        open = false;
+      });
+
+      const send = (event: string, data: unknown) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+      // Last updatedAt sent for each job, so unchanged jobs aren't resent
+      const sent = new Map<string, number>();
+      let lastSend = Date.now();
+
+      try {
+        while (open) {
+          const jobs = await prisma.job.findMany({
+            where: id
+              ? { id }
+              : {
+                  type: { in: types },
+                  OR: [
+                    { status: { in: ["queued", "running"] } },
+                    { updatedAt: { gte: since } },
+                  ],
+                },
+            orderBy: { createdAt: "asc" },
+          });
+
+          if (id && jobs.length === 0) {
+            send("missing", { error: "Job not found" });
+            break;
+          }
+
+          for (const job of jobs) {
+            if (sent.get(job.id) === job.updatedAt.getTime()) continue;
+            sent.set(job.id, job.updatedAt.getTime());
+            send("job", toJobItem(job));
+            lastSend = Date.now();
+          }
+
+          if (id && FINISHED.includes(jobs[0].status)) break;
+
+          if (Date.now() - lastSend > HEARTBEAT_MS) {
+            controller.enqueue(encoder.encode(": heartbeat\n\n"));
+            lastSend = Date.now();
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, STREAM_INTERVAL_MS));
+        }
+      } catch (err) {
+        // Enqueueing after the client disconnects throws; nothing to report
+        if (open) console.error("Job stream error:", err);
+      }
+
+      if (open) controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
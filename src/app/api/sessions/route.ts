@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import {
+  requireAuth,
+  revokeSessions,
+  endSession,
+} from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
+import type { SessionItem } from "@/types";
+
+// GET /api/sessions — the devices you're signed in on
+export async function GET() {
+  let auth: JWTPayload;
+  try {
+    auth = await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const sessions = await prisma.session.findMany({
+    where: { userId: auth.userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: "desc" },
+  });
+
+  const data: SessionItem[] = sessions.map((s) => ({
+    id: s.id,
+    userAgent: s.userAgent,
+    ip: s.ip,
+    createdAt: s.createdAt.toISOString(),
+    lastSeenAt: s.lastSeenAt.toISOString(),
+    current: s.id === auth.sessionId,
+  }));
+
+  return NextResponse.json({ sessions: data });
+}
+
+// DELETE /api/sessions?id= — sign out one device.
+// DELETE /api/sessions?all=true — sign out all devices, this one included.
+export async function DELETE(request: NextRequest) {
+  let auth: JWTPayload;
+  try {
+    auth = await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const all = searchParams.get("all") === "true";
+
+  if (all) {
+    const revoked = await revokeSessions(auth.userId);
+    await endSession();
+    return NextResponse.json({ revoked });
+  }
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Session ID or all=true required" },
+      { status: 400 }
+    );
+  }
+
+  if (id === auth.sessionId) {
+    await endSession();
+    return NextResponse.json({ revoked: 1 });
+  }
+
+  // Only your own sessions
+  const { count } = await prisma.session.updateMany({
+    where: { id, userId: auth.userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) {
+    return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ revoked: count });
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
+import {
+  BACKFILL_MAX_YEARS,
+  PERIOD_TYPES,
+  backfillSnapshots,
+  closeEndedPeriods,
+  toSnapshotItem,
+} from "@/lib/snapshots";
+import { evaluateAchievements } from "@/lib/achievements";
+import type { PeriodType } from "@/types";
+
+// GET /api/snapshots?type=fortnight&limit=26 — period report cards, newest first
+export async function GET(request: NextRequest) {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const type = searchParams.get("type") || "fortnight";
+  const limit = parseInt(searchParams.get("limit") || "26");
+
+  if (!PERIOD_TYPES.includes(type as PeriodType)) {
+    return NextResponse.json({ error: "Invalid period type" }, { status: 400 });
+  }
+
+  const snapshots = await prisma.periodSnapshot.findMany({
+    where: { periodType: type },
+    orderBy: { periodStart: "desc" },
+    take: limit > 0 ? limit : undefined,
+  });
+
+  return NextResponse.json({ snapshots: snapshots.map(toSnapshotItem) });
+}
+
+// POST /api/snapshots — close ended periods, or { action: "backfill", periodType?, from? }
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { action, periodType, from } = body;
+
+  try {
+    if (action === "backfill") {
+      const types: PeriodType[] = periodType ? [periodType] : PERIOD_TYPES;
+      if (!types.every((t) => PERIOD_TYPES.includes(t))) {
+        return NextResponse.json({ error: "Invalid period type" }, { status: 400 });
+      }
+
+      const fromDate = from ? new Date(from) : undefined;
+      if (fromDate && isNaN(fromDate.getTime())) {
+        return NextResponse.json({ error: "Invalid from date" }, { status: 400 });
+      }
+      const earliest = new Date();
+      earliest.setFullYear(earliest.getFullYear() - BACKFILL_MAX_YEARS);
+      if (fromDate && fromDate < earliest) {
+        return NextResponse.json(
+          { error: `Backfill can go back at most ${BACKFILL_MAX_YEARS} years` },
+          { status: 400 }
+        );
+      }
+
+      const counts: Record<string, number> = {};
+      for (const t of types) {
+        counts[t] = await backfillSnapshots(t, fromDate);
+      }
+      await evaluateAchievements();
+      return NextResponse.json({ backfilled: counts });
+    }
+
+    const closed = await closeEndedPeriods();
+    await evaluateAchievements();
+    return NextResponse.json({ closed: closed.map(toSnapshotItem) });
+  } catch (err) {
+    console.error("Snapshot error:", err);
+    return NextResponse.json(
+      { error: "Failed to build snapshots" },
+      { status: 500 }
+    );
+  }
+}
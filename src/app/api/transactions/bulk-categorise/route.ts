@@ -1,13 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireAuth } from "@/lib/auth";
+import { requireRole, authErrorResponse } from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
 import { categoriseWithAI, createCategoryRule } from "@/lib/categories";
+import { recordAudit, TRANSACTION_AUDIT_FIELDS } from "@/lib/audit";
 
 export async function POST(request: NextRequest) {
+  let auth: JWTPayload;
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    auth = await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const body = await request.json();
@@ -15,20 +18,32 @@ export async function POST(request: NextRequest) {
 
   // Manual bulk categorise
   if (categoryId && transactionIds?.length) {
+    const transactions = await prisma.transaction.findMany({
+      where: { id: { in: transactionIds } },
+      select: { id: true, description: true, categoryId: true },
+    });
+
     await prisma.transaction.updateMany({
       where: { id: { in: transactionIds } },
       data: {
         categoryId,
         categorySource: "manual",
+        ruleId: null,
       },
     });
+    await recordAudit(
+      auth.userId,
+      TRANSACTION_AUDIT_FIELDS,
+      transactions.map((tx) => ({
+        entityType: "transaction",
+        entityId: tx.id,
+        action: "bulk-categorise",
+        before: { categoryId: tx.categoryId },
+        after: { categoryId },
+      }))
+    );
 
     // Create rules for each description
-    const transactions = await prisma.transaction.findMany({
-      where: { id: { in: transactionIds } },
-      select: { description: true },
-    });
-
     for (const tx of transactions) {
       await createCategoryRule(tx.description, categoryId);
     }
@@ -42,7 +57,7 @@ export async function POST(request: NextRequest) {
   if (useAI) {
     const uncategorised = await prisma.transaction.findMany({
       where: { categoryId: null },
-      select: { id: true, description: true },
+      include: { account: { select: { name: true, type: true } } },
       take: 50, // Batch size to keep AI costs manageable
     });
 
@@ -53,10 +68,26 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const aiResults = await categoriseWithAI(uncategorised);
+    const accounts = await prisma.account.findMany({
+      select: { name: true, type: true },
+    });
+    const aiResults = await categoriseWithAI(
+      uncategorised.map((tx) => ({
+        id: tx.id,
+        description: tx.description,
+        amount: tx.amount.toString(),
+        direction: tx.direction,
+        accountName: tx.account.name,
+        accountType: tx.account.type,
+        date: tx.date.toISOString().split("T")[0],
+      })),
+      accounts
+    );
     let updated = 0;
 
-    for (const [txId, catId] of Object.entries(aiResults)) {
+    for (const [txId, result] of Object.entries(aiResults)) {
+      const catId = result.categoryId;
+
       // Verify the category exists
       const category = await prisma.category.findUnique({
         where: { id: catId },
@@ -67,6 +98,15 @@ export async function POST(request: NextRequest) {
         where: { id: txId },
         data: { categoryId: catId, categorySource: "ai" },
       });
+      await recordAudit(auth.userId, TRANSACTION_AUDIT_FIELDS, [
+        {
+          entityType: "transaction",
+          entityId: txId,
+          action: "ai-categorise",
+          before: { categoryId: null },
+          after: { categoryId: catId },
+        },
+      ]);
 
       // Also create a rule for future matching
       const tx = uncategorised.find((t) => t.id === txId);
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requireRole, authErrorResponse } from "@/lib/auth";
+import {
+  mappingFromProfile,
+  parseMapping,
+  parseTemplate,
+  readCsv,
+} from "@/lib/import-profiles";
+import { readStatement } from "@/lib/statements";
+import type { ImportMapping, ImportPreview } from "@/types";
+
+const PREVIEW_ROWS = 20;
+
+// POST /api/transactions/import/preview — multipart { file, accountId?,
+// profile?, mapping? }. Reads the file without saving anything so the import
+// wizard can show the first rows and how they'll be parsed.
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  try {
+    const formData = await request.formData();
+    const file = formData.get("file") as File | null;
+    const accountId = formData.get("accountId") as string | null;
+    const profileId = formData.get("profile") as string | null;
+    const mappingJson = formData.get("mapping") as string | null;
+
+    if (!file) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+
+    let mapping: ImportMapping | null = null;
+    if (mappingJson) {
+      const result = parseMapping(mappingJson);
+      if ("error" in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      mapping = result.mapping;
+    }
+
+    const account = accountId
+      ? await prisma.account.findUnique({ where: { id: accountId } })
+      : null;
+
+    const text = await file.text();
+    const statement = readStatement(file.name, text, {
+      profileId,
+      mapping,
+      template: parseTemplate(account?.importTemplate ?? null),
+    });
+
+    // An unrecognised CSV still previews, so its columns can be mapped
+    const recognised = !("error" in statement);
+    const format = recognised ? statement.format : "csv";
+    const preview: ImportPreview = {
+      format,
+      source: recognised ? statement.source : null,
+      columns: [],
+      sample: [],
+      mapping: null,
+      parsed: [],
+      totalRows: 0,
+      invalid: 0,
+    };
+
+    if (format === "csv") {
+      const data = readCsv(text);
+      const firstRow = data[0] || [];
+      const profile = recognised ? statement.profile : null;
+      const hasHeader = profile ? profile.hasHeader : mapping?.hasHeader ?? true;
+
+      preview.columns = hasHeader
+        ? firstRow.map((h, i) => h || `Column ${i + 1}`)
+        : firstRow.map((_, i) => `Column ${i + 1}`);
+      preview.sample = data.slice(hasHeader ? 1 : 0).slice(0, PREVIEW_ROWS);
+      preview.mapping = profile ? mappingFromProfile(profile, firstRow) : null;
+    }
+
+    if (recognised) {
+      const { rows, invalid } = statement.parsed;
+      preview.parsed = rows.slice(0, PREVIEW_ROWS).map((r) => ({
+        date: r.date.toISOString(),
+        description: r.description,
+        amount: r.amount.toNumber(),
+        direction: r.direction,
+        balance: r.balance ? r.balance.toNumber() : null,
+      }));
+      preview.totalRows = rows.length + invalid;
+      preview.invalid = invalid;
+    }
+
+    return NextResponse.json(preview);
+  } catch (err) {
+    console.error("Import preview error:", err);
+    return NextResponse.json(
+      { error: "Failed to read file" },
+      { status: 500 }
+    );
+  }
+}
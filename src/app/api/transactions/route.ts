@@ -1,12 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireAuth } from "@/lib/auth";
+import { requireAuth, requireRole, authErrorResponse } from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
 import { createCategoryRule } from "@/lib/categories";
+import { unlinkTransfer } from "@/lib/transfers";
+import { removeTransferContributions } from "@/lib/goals";
+import { memberWhere } from "@/lib/members";
+import { recordAudit, TRANSACTION_AUDIT_FIELDS } from "@/lib/audit";
 import { decimalToNumber } from "@/types";
 import type { TransactionItem } from "@/types";
 import { Prisma } from "@prisma/client";
 
-// GET /api/transactions — list with filters and pagination
+// GET /api/transactions — list with filters and pagination.
+// ?member= narrows to one family member's spending, or "unassigned".
 export async function GET(request: NextRequest) {
   try {
     await requireAuth();
@@ -19,13 +25,15 @@ export async function GET(request: NextRequest) {
   const toDate = searchParams.get("toDate");
   const categoryId = searchParams.get("categoryId");
   const accountId = searchParams.get("accountId");
+  const member = searchParams.get("member");
   const direction = searchParams.get("direction");
   const search = searchParams.get("search");
   const isExcluded = searchParams.get("isExcluded");
+  const review = searchParams.get("review");
   const page = parseInt(searchParams.get("page") || "1");
   const pageSize = parseInt(searchParams.get("pageSize") || "50");
 
-  const where: Prisma.TransactionWhereInput = {};
+  const where: Prisma.TransactionWhereInput = { ...memberWhere(member) };
 
   if (fromDate) where.date = { ...((where.date as Prisma.DateTimeFilter) || {}), gte: new Date(fromDate) };
   if (toDate) where.date = { ...((where.date as Prisma.DateTimeFilter) || {}), lte: new Date(toDate) };
@@ -34,6 +42,7 @@ export async function GET(request: NextRequest) {
   if (direction) where.direction = direction;
   if (isExcluded !== null && isExcluded !== undefined)
     where.isExcluded = isExcluded === "true";
+  if (review === "duplicates") where.duplicateOfId = { not: null };
   if (search) {
     where.OR = [
       { description: { contains: search } },
@@ -56,6 +65,21 @@ export async function GET(request: NextRequest) {
     prisma.transaction.count({ where }),
   ]);
 
+  // Patterns of the rules that categorised this page (for auditing)
+  const ruleIds = [...new Set(transactions.flatMap((t) => (t.ruleId ? [t.ruleId] : [])))];
+  const rules = await prisma.categoryRule.findMany({
+    where: { id: { in: ruleIds } },
+    select: { id: true, pattern: true },
+  });
+  const rulePatterns = new Map(rules.map((r) => [r.id, r.pattern]));
+
+  const memberIds = [...new Set(transactions.flatMap((t) => (t.memberId ? [t.memberId] : [])))];
+  const members = await prisma.user.findMany({
+    where: { id: { in: memberIds } },
+    select: { id: true, name: true },
+  });
+  const memberNames = new Map(members.map((m) => [m.id, m.name]));
+
   const data: TransactionItem[] = transactions.map((t) => ({
     id: t.id,
     date: t.date.toISOString(),
@@ -68,12 +92,19 @@ export async function GET(request: NextRequest) {
     categoryIcon: t.category?.icon || null,
     categoryColour: t.category?.colour || null,
     categorySource: t.categorySource,
+    ruleId: t.ruleId,
+    rulePattern: t.ruleId ? rulePatterns.get(t.ruleId) ?? null : null,
     merchantName: t.merchantName,
     accountName: t.account.name,
     isExcluded: t.isExcluded,
     isTransfer: t.isTransfer,
+    status: t.status as TransactionItem["status"],
     linkedTransactionId: t.linkedTransactionId,
+    duplicateOfId: t.duplicateOfId,
     notes: t.notes,
+    memberId: t.memberId,
+    memberName: t.memberId ? memberNames.get(t.memberId) ?? null : null,
+    memberSource: t.memberSource as TransactionItem["memberSource"],
   }));
 
   return NextResponse.json({
@@ -85,16 +116,17 @@ export async function GET(request: NextRequest) {
   });
 }
 
-// PATCH /api/transactions — update a transaction
+// PATCH /api/transactions — update a transaction. Changes are audited.
 export async function PATCH(request: NextRequest) {
+  let auth: JWTPayload;
   try {
-    await requireAuth();
-  } catch {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    auth = await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
   }
 
   const body = await request.json();
-  const { id, categoryId, notes, isExcluded } = body;
+  const { id, categoryId, memberId, notes, isExcluded, unlink, notDuplicate } = body;
 
   if (!id) {
     return NextResponse.json(
@@ -103,6 +135,11 @@ export async function PATCH(request: NextRequest) {
     );
   }
 
+  const before = await prisma.transaction.findUnique({ where: { id } });
+  if (!before) {
+    return NextResponse.json({ error: "Transaction not found" }, { status: 404 });
+  }
+
   const updateData: Prisma.TransactionUpdateInput = {};
 
   if (categoryId !== undefined) {
@@ -110,21 +147,36 @@ export async function PATCH(request: NextRequest) {
       ? { connect: { id: categoryId } }
       : { disconnect: true };
     updateData.categorySource = "manual";
+    updateData.ruleId = null;
 
     // If manually categorising, create a rule for future matching
     if (categoryId) {
-      const tx = await prisma.transaction.findUnique({
-        where: { id },
-        select: { description: true },
-      });
-      if (tx) {
-        await createCategoryRule(tx.description, categoryId);
+      await createCategoryRule(before.description, categoryId);
+    }
+  }
+
+  // Attribute by hand; null marks it as shared. Either way rules and the
+  // account owner leave it alone from now on.
+  if (memberId !== undefined) {
+    if (memberId) {
+      const member = await prisma.user.findUnique({ where: { id: memberId } });
+      if (!member) {
+        return NextResponse.json({ error: "Family member not found" }, { status: 404 });
       }
     }
+    updateData.memberId = memberId || null;
+    updateData.memberSource = "manual";
   }
 
   if (notes !== undefined) updateData.notes = notes;
   if (isExcluded !== undefined) updateData.isExcluded = isExcluded;
+  // Reviewed a possible duplicate and it's a real transaction
+  if (notDuplicate) updateData.duplicateOfId = null;
+
+  // Break a linked transfer pair (also rolls back goal funding)
+  if (unlink) {
+    await unlinkTransfer(id);
+  }
 
   const updated = await prisma.transaction.update({
     where: { id },
@@ -135,6 +187,23 @@ export async function PATCH(request: NextRequest) {
     },
   });
 
+  await recordAudit(auth.userId, TRANSACTION_AUDIT_FIELDS, [
+    { entityType: "transaction", entityId: id, action: "update", before, after: updated },
+  ]);
+
+  const rule = updated.ruleId
+    ? await prisma.categoryRule.findUnique({
+        where: { id: updated.ruleId },
+        select: { pattern: true },
+      })
+    : null;
+  const member = updated.memberId
+    ? await prisma.user.findUnique({
+        where: { id: updated.memberId },
+        select: { name: true },
+      })
+    : null;
+
   return NextResponse.json({
     transaction: {
       id: updated.id,
@@ -148,12 +217,59 @@ export async function PATCH(request: NextRequest) {
       categoryIcon: updated.category?.icon || null,
       categoryColour: updated.category?.colour || null,
       categorySource: updated.categorySource,
+      ruleId: updated.ruleId,
+      rulePattern: rule?.pattern ?? null,
       merchantName: updated.merchantName,
       accountName: updated.account.name,
       isExcluded: updated.isExcluded,
       isTransfer: updated.isTransfer,
+      status: updated.status as TransactionItem["status"],
       linkedTransactionId: updated.linkedTransactionId,
+      duplicateOfId: updated.duplicateOfId,
       notes: updated.notes,
+      memberId: updated.memberId,
+      memberName: member?.name ?? null,
+      memberSource: updated.memberSource as TransactionItem["memberSource"],
     },
   });
 }
+
+// DELETE /api/transactions?id= — remove a transaction, e.g. a confirmed duplicate
+export async function DELETE(request: NextRequest) {
+  let auth: JWTPayload;
+  try {
+    auth = await requireRole("member");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json(
+      { error: "Transaction ID required" },
+      { status: 400 }
+    );
+  }
+
+  const tx = await prisma.transaction.findUnique({ where: { id } });
+  if (!tx) {
+    return NextResponse.json({ error: "Transaction not found" }, { status: 404 });
+  }
+
+  await recordAudit(auth.userId, TRANSACTION_AUDIT_FIELDS, [
+    { entityType: "transaction", entityId: id, action: "delete", before: tx, after: null },
+  ]);
+
+  // Break any transfer link first so the other side isn't left dangling
+  await unlinkTransfer(id);
+  await removeTransferContributions([id]);
+  await prisma.transaction.updateMany({
+    where: { duplicateOfId: id },
+    data: { duplicateOfId: null },
+  });
+  await prisma.transaction.delete({ where: { id } });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { clientIp, requireAuth, revokeSessions, verifyPassword } from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
+import { loginLockout, lockedOutResponse, recordLoginAttempt } from "@/lib/lockout";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpUri,
+  verifyTotp,
+} from "@/lib/totp";
+import {
+  checkSecondFactor,
+  recoveryCodeHashes,
+  twoFactorEnabled,
+} from "@/lib/two-factor";
+import type { TwoFactorSetup, TwoFactorStatus } from "@/types";
+import type { User } from "@prisma/client";
+
+// Fresh recovery codes: the plain codes to show once, and their hashes to keep
+function newRecoveryCodes() {
+  const codes = generateRecoveryCodes();
+  return { codes, stored: JSON.stringify(codes.map(hashRecoveryCode)) };
+}
+
+/**
+ * Re-check the password and/or a second factor before changing two-factor
+ * settings. Failures count towards the same lockout as the login form, so
+ * a stolen session can't be used to guess them. Returns the error
+ * response, or null if the checks pass.
+ */
+async function recheck(
+  user: User,
+  ip: string,
+  checks: { password?: unknown; code?: unknown }
+): Promise<NextResponse | null> {
+  const retryAfter = await loginLockout(user.email, ip);
+  if (retryAfter !== null) return lockedOutResponse(retryAfter);
+
+  if ("password" in checks) {
+    const { password } = checks;
+    const valid =
+      typeof password === "string" &&
+      password !== "" &&
+      (await verifyPassword(password, user.passwordHash));
+    if (!valid) {
+      await recordLoginAttempt(user.email, ip, false);
+      return NextResponse.json({ error: "Incorrect password" }, { status: 401 });
+    }
+  }
+
+  if ("code" in checks) {
+    if (!(await checkSecondFactor(user, String(checks.code ?? "")))) {
+      await recordLoginAttempt(user.email, ip, false);
+      return NextResponse.json({ error: "Invalid code" }, { status: 401 });
+    }
+  }
+
+  return null;
+}
+
+// GET /api/two-factor — whether two-factor sign-in is on for you
+export async function GET() {
+  let auth: JWTPayload;
+  try {
+    auth = await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: auth.userId } });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  const enabled = twoFactorEnabled(user);
+  const status: TwoFactorStatus = {
+    enabled,
+    pending: !enabled && user.totpSecret !== null,
+    recoveryCodesRemaining: enabled ? recoveryCodeHashes(user).length : 0,
+  };
+  return NextResponse.json(status);
+}
+
+/**
+ * POST /api/two-factor
+ *
+ * Enrolment, in two steps: { action: "setup", password } returns a new
+ * secret for the authenticator app, then { action: "enable", code } turns
+ * two-factor on once the app's code checks out, returning recovery codes.
+ * { action: "recovery-codes", code } replaces the recovery codes, and
+ * { action: "disable", password, code } turns two-factor off.
+ */
+export async function POST(request: NextRequest) {
+  let auth: JWTPayload;
+  try {
+    auth = await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const { action, password, code } = body;
+
+  const user = await prisma.user.findUnique({ where: { id: auth.userId } });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+  const ip = clientIp(request);
+
+  if (action === "setup") {
+    if (twoFactorEnabled(user)) {
+      return NextResponse.json(
+        { error: "Two-factor sign-in is already on" },
+        { status: 409 }
+      );
+    }
+    const problem = await recheck(user, ip, { password });
+    if (problem) return problem;
+
+    // Replaces any unfinished setup
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: secret, totpEnabledAt: null, totpLastStep: null, recoveryCodes: null },
+    });
+
+    const setup: TwoFactorSetup = { secret, uri: totpUri(secret, user.email) };
+    return NextResponse.json(setup);
+  }
+
+  if (action === "enable") {
+    if (twoFactorEnabled(user)) {
+      return NextResponse.json(
+        { error: "Two-factor sign-in is already on" },
+        { status: 409 }
+      );
+    }
+    if (!user.totpSecret) {
+      return NextResponse.json(
+        { error: "Set up an authenticator app first" },
+        { status: 400 }
+      );
+    }
+
+    const step = code ? verifyTotp(user.totpSecret, String(code)) : null;
+    if (step === null) {
+      return NextResponse.json(
+        { error: "That code doesn't match. Check your device's clock and try again." },
+        { status: 400 }
+      );
+    }
+
+    // Only for the secret that code was checked against: a setup started
+    // meanwhile (in another tab, say) has replaced it
+    const { codes, stored } = newRecoveryCodes();
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, totpSecret: user.totpSecret, totpEnabledAt: null },
+      data: { totpEnabledAt: new Date(), totpLastStep: step, recoveryCodes: stored },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Two-factor setup changed while turning it on. Start again." },
+        { status: 409 }
+      );
+    }
+
+    // Other devices signed in with just a password; make them sign in again
+    await revokeSessions(user.id, auth.sessionId);
+
+    return NextResponse.json({ recoveryCodes: codes });
+  }
+
+  if (action === "recovery-codes") {
+    if (!twoFactorEnabled(user)) {
+      return NextResponse.json(
+        { error: "Two-factor sign-in is off" },
+        { status: 400 }
+      );
+    }
+    const problem = await recheck(user, ip, { code });
+    if (problem) return problem;
+
+    const { codes, stored } = newRecoveryCodes();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { recoveryCodes: stored },
+    });
+
+    return NextResponse.json({ recoveryCodes: codes });
+  }
+
+  if (action === "disable") {
+    if (!twoFactorEnabled(user)) {
+      return NextResponse.json(
+        { error: "Two-factor sign-in is off" },
+        { status: 400 }
+      );
+    }
+    const problem = await recheck(user, ip, { password, code });
+    if (problem) return problem;
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null, recoveryCodes: null },
+    });
+
+    return NextResponse.json({ success: true });
+  }
+
+  return NextResponse.json({ error: "Invalid action" }, { status: 400 });
+}
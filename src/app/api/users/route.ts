@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/db";
+import { clearMemberAttribution } from "@/lib/members";
+import {
+  requireAuth,
+  requireRole,
+  authErrorResponse,
+  hashPassword,
+  isRole,
+  revokeSessions,
+} from "@/lib/auth";
+import type { JWTPayload } from "@/lib/auth";
+import type { FamilyMember } from "@/types";
+import type { User } from "@prisma/client";
+
+function toFamilyMember(user: User): FamilyMember {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    createdAt: user.createdAt.toISOString(),
+  };
+}
+
+// Shown to the admin once, to pass on; the member signs in with it
+function temporaryPassword(): string {
+  return randomBytes(9).toString("base64url");
+}
+
+// The family must always keep at least one admin
+async function isLastAdmin(user: User): Promise<boolean> {
+  if (user.role !== "admin") return false;
+  return (await prisma.user.count({ where: { role: "admin" } })) <= 1;
+}
+
+// GET /api/users — list family members. Anyone signed in can see who's in
+// the family, for attributing spending.
+export async function GET() {
+  try {
+    await requireAuth();
+  } catch {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const users = await prisma.user.findMany({ orderBy: { createdAt: "asc" } });
+  return NextResponse.json({ users: users.map(toFamilyMember) });
+}
+
+// POST /api/users — invite a family member { name, email, role }. Returns a
+// temporary password for the admin to pass on.
+export async function POST(request: NextRequest) {
+  try {
+    await requireRole("admin");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const { name, email, role = "member" } = body;
+
+  if (!name || !email) {
+    return NextResponse.json(
+      { error: "Name and email are required" },
+      { status: 400 }
+    );
+  }
+  if (!isRole(role)) {
+    return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    return NextResponse.json(
+      { error: "An account with this email already exists" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const password = temporaryPassword();
+    const user = await prisma.user.create({
+      data: { name, email, role, passwordHash: await hashPassword(password) },
+    });
+    return NextResponse.json({
+      user: toFamilyMember(user),
+      temporaryPassword: password,
+    });
+  } catch (err) {
+    console.error("User invite error:", err);
+    return NextResponse.json(
+      { error: "Failed to add family member" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/users — { id, role } to change a role, { id, resetPassword: true }
+// for a new temporary password (which also signs them out everywhere),
+// { id, resetTwoFactor: true } to turn off two-factor for a lost device
+export async function PATCH(request: NextRequest) {
+  try {
+    await requireRole("admin");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const body = await request.json();
+  const { id, role, resetPassword, resetTwoFactor } = body;
+
+  if (!id) {
+    return NextResponse.json({ error: "User ID required" }, { status: 400 });
+  }
+
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+
+  if (role !== undefined) {
+    if (!isRole(role)) {
+      return NextResponse.json({ error: "Invalid role" }, { status: 400 });
+    }
+    if (role !== "admin" && (await isLastAdmin(user))) {
+      return NextResponse.json(
+        { error: "The family needs at least one admin" },
+        { status: 400 }
+      );
+    }
+  }
+
+  const password = resetPassword ? temporaryPassword() : null;
+  const updated = await prisma.user.update({
+    where: { id },
+    data: {
+      ...(role !== undefined && { role }),
+      ...(password && { passwordHash: await hashPassword(password) }),
+      ...(resetTwoFactor && {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastStep: null,
+        recoveryCodes: null,
+      }),
+    },
+  });
+
+  if (password) await revokeSessions(id);
+
+  return NextResponse.json({
+    user: toFamilyMember(updated),
+    ...(password && { temporaryPassword: password }),
+  });
+}
+
+// DELETE /api/users?id= — remove a family member. Their transactions stay
+// but become shared; their personal allowances go.
+export async function DELETE(request: NextRequest) {
+  let auth: JWTPayload;
+  try {
+    auth = await requireRole("admin");
+  } catch (err) {
+    return authErrorResponse(err);
+  }
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json({ error: "User ID required" }, { status: 400 });
+  }
+  if (id === auth.userId) {
+    return NextResponse.json(
+      { error: "You can't remove yourself" },
+      { status: 400 }
+    );
+  }
+
+  const user = await prisma.user.findUnique({ where: { id } });
+  if (!user) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+  if (await isLastAdmin(user)) {
+    return NextResponse.json(
+      { error: "The family needs at least one admin" },
+      { status: 400 }
+    );
+  }
+
+  await clearMemberAttribution(id);
+  await prisma.session.deleteMany({ where: { userId: id } });
+  await prisma.user.delete({ where: { id } });
+  return NextResponse.json({ success: true });
+}
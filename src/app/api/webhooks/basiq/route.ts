@@ -1,48 +1,58 @@
 import { NextRequest, NextResponse } from "next/server";
-import { prisma } from "@/lib/db";
+import { processWebhookEvent, recordWebhookEvent } from "@/lib/webhooks";
+import { verifyWebhookSignature } from "@/lib/webhook-signature";
+import type { BasiqWebhookPayload } from "@/lib/webhooks";
 
+/**
+ * POST /api/webhooks/basiq
+ *
+ * Receive Basiq events. Each delivery is verified, stored once per event id
+ * and then handled; redeliveries of a handled event are acknowledged without
+ * acting again. A 500 makes Basiq retry, which picks up the stored event.
+ */
 export async function POST(request: NextRequest) {
   try {
-    // Verify webhook secret if configured
+    const body = await request.text();
+
+    // Verify the signature if a secret is configured (always in production)
     const webhookSecret = process.env.BASIQ_WEBHOOK_SECRET;
     if (webhookSecret) {
-      const signature = request.headers.get("x-basiq-signature");
-      if (signature !== webhookSecret) {
-        return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+      const rejected = verifyWebhookSignature(
+        webhookSecret,
+        {
+          id: request.headers.get("webhook-id"),
+          timestamp: request.headers.get("webhook-timestamp"),
+          signature: request.headers.get("webhook-signature"),
+        },
+        body
+      );
+      if (rejected) {
+        return NextResponse.json({ error: rejected }, { status: 401 });
       }
+    } else if (process.env.NODE_ENV === "production") {
+      return NextResponse.json(
+        { error: "Webhook secret not configured" },
+        { status: 401 }
+      );
     }
 
-    const body = await request.json();
-    const { eventType, connectionId, userId } = body;
-
-    switch (eventType) {
-      case "connection.status.changed": {
-        const { status } = body;
-        // Update connection status in our DB
-        const conn = await prisma.bankConnection.findFirst({
-          where: { basiqConnectionId: connectionId },
-        });
-        if (conn) {
-          await prisma.bankConnection.update({
-            where: { id: conn.id },
-            data: { status: status === "active" ? "active" : "invalid" },
-          });
-        }
-        break;
-      }
-
-      case "transaction.updated": {
-        // Could trigger a sync for this connection
-        console.log(
-          `Transaction updated webhook for user ${userId}, connection ${connectionId}`
-        );
-        break;
-      }
+    let payload: BasiqWebhookPayload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
 
-      default:
-        console.log(`Unhandled webhook event: ${eventType}`);
+    const { event, duplicate } = await recordWebhookEvent(
+      request.headers.get("webhook-id"),
+      body,
+      payload
+    );
+    if (duplicate) {
+      return NextResponse.json({ received: true, duplicate: true });
     }
 
+    await processWebhookEvent(event);
     return NextResponse.json({ received: true });
   } catch (err) {
     console.error("Webhook error:", err);
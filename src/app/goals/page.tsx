@@ -0,0 +1,278 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Card from "@/components/shared/Card";
+import GoalCard from "@/components/goals/GoalCard";
+import AIAdvisor from "@/components/goals/AIAdvisor";
+import type { GoalItem, AccountSummary } from "@/types";
+
+export default function GoalsPage() {
+  const [goals, setGoals] = useState<GoalItem[]>([]);
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Goal form
+  const [showForm, setShowForm] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newTarget, setNewTarget] = useState("");
+  const [newCurrent, setNewCurrent] = useState("");
+  const [newTargetDate, setNewTargetDate] = useState("");
+  const [newPriority, setNewPriority] = useState("1");
+  const [newIcon, setNewIcon] = useState("");
+  const [newColour, setNewColour] = useState("#3B82F6");
+  const [newAccountId, setNewAccountId] = useState("");
+
+  const fetchGoals = useCallback(async () => {
+    try {
+      const [goalsRes, accRes] = await Promise.all([
+        fetch("/api/goals"),
+        fetch("/api/accounts"),
+      ]);
+      const goalsData = await goalsRes.json();
+      const accData = await accRes.json();
+      setGoals(goalsData.goals || []);
+      setAccounts(accData.accounts || []);
+    } catch (err) {
+      console.error("Goals fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  function replaceGoal(updated: GoalItem) {
+    setGoals((prev) => prev.map((g) => (g.id === updated.id ? updated : g)));
+  }
+
+  async function handleAddGoal(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newName.trim() || !newTarget) return;
+
+    const res = await fetch("/api/goals", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: newName,
+        targetAmount: parseFloat(newTarget),
+        currentAmount: newCurrent ? parseFloat(newCurrent) : undefined,
+        targetDate: newTargetDate || null,
+        priority: parseInt(newPriority) || 1,
+        icon: newIcon || null,
+        colour: newColour,
+        accountId: newAccountId || null,
+      }),
+    });
+    const data = await res.json();
+    if (data.goal) {
+      setGoals((prev) => [...prev, data.goal]);
+      setNewAccountId("");
+      setNewName("");
+      setNewTarget("");
+      setNewCurrent("");
+      setNewTargetDate("");
+      setNewIcon("");
+      setShowForm(false);
+    } else {
+      alert(data.error || "Failed to create goal");
+    }
+  }
+
+  async function handleContribute(goalId: string, amount: number, note: string) {
+    const res = await fetch("/api/goals/contribute", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ goalId, amount, note: note || null }),
+    });
+    const data = await res.json();
+    if (data.goal) replaceGoal(data.goal);
+  }
+
+  async function handleLinkAccount(goalId: string, accountId: string) {
+    const res = await fetch("/api/goals", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: goalId, accountId: accountId || null }),
+    });
+    const data = await res.json();
+    if (data.goal) replaceGoal(data.goal);
+  }
+
+  async function handleCelebrate(goalId: string) {
+    const res = await fetch("/api/goals", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: goalId, celebrateMilestones: true }),
+    });
+    const data = await res.json();
+    if (data.goal) replaceGoal(data.goal);
+  }
+
+  async function handleDelete(goalId: string) {
+    const confirmed = window.confirm(
+      "Delete this goal? Its contribution history will be removed."
+    );
+    if (!confirmed) return;
+
+    await fetch(`/api/goals?id=${goalId}`, { method: "DELETE" });
+    setGoals((prev) => prev.filter((g) => g.id !== goalId));
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px] text-text-muted">
+        Loading goals...
+      </div>
+    );
+  }
+
+  const totalSaved = goals.reduce((sum, g) => sum + g.currentAmount, 0);
+  const totalTarget = goals.reduce((sum, g) => sum + g.targetAmount, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Goals</h1>
+          {goals.length > 0 && (
+            <p className="text-sm text-text-muted">
+              ${totalSaved.toLocaleString("en-AU", { maximumFractionDigits: 0 })} saved of $
+              {totalTarget.toLocaleString("en-AU", { maximumFractionDigits: 0 })}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-3 py-1.5 bg-accent hover:bg-accent-light text-white rounded-lg text-sm font-medium transition-colors"
+        >
+          {showForm ? "Cancel" : "Add Goal"}
+        </button>
+      </div>
+
+      {showForm && (
+        <Card title="New Goal">
+          <form onSubmit={handleAddGoal} className="flex flex-wrap items-end gap-3">
+            <div className="w-14">
+              <label className="block text-xs text-text-muted mb-1">Icon</label>
+              <input
+                type="text"
+                value={newIcon}
+                onChange={(e) => setNewIcon(e.target.value)}
+                placeholder="🏠"
+                className="w-full bg-background border border-surface-hover rounded-lg px-2 py-1.5 text-sm text-foreground text-center"
+              />
+            </div>
+            <div className="flex-1 min-w-[160px]">
+              <label className="block text-xs text-text-muted mb-1">Name</label>
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="e.g. House Deposit"
+                required
+                className="w-full bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground"
+              />
+            </div>
+            <div className="w-[130px]">
+              <label className="block text-xs text-text-muted mb-1">Target ($)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={newTarget}
+                onChange={(e) => setNewTarget(e.target.value)}
+                required
+                className="w-full bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground font-mono"
+              />
+            </div>
+            <div className="w-[130px]">
+              <label className="block text-xs text-text-muted mb-1">Already saved ($)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={newCurrent}
+                onChange={(e) => setNewCurrent(e.target.value)}
+                className="w-full bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground font-mono"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-text-muted mb-1">Target date</label>
+              <input
+                type="date"
+                value={newTargetDate}
+                onChange={(e) => setNewTargetDate(e.target.value)}
+                className="bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground"
+              />
+            </div>
+            <div className="w-20">
+              <label className="block text-xs text-text-muted mb-1">Priority</label>
+              <input
+                type="number"
+                min="1"
+                value={newPriority}
+                onChange={(e) => setNewPriority(e.target.value)}
+                className="w-full bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground"
+              />
+            </div>
+            <div className="min-w-[160px]">
+              <label className="block text-xs text-text-muted mb-1">Funded by transfers to</label>
+              <select
+                value={newAccountId}
+                onChange={(e) => setNewAccountId(e.target.value)}
+                className="w-full bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground"
+              >
+                <option value="">No linked account</option>
+                {accounts.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              type="color"
+              value={newColour}
+              onChange={(e) => setNewColour(e.target.value)}
+              className="w-8 h-8 rounded border border-surface-hover cursor-pointer"
+            />
+            <button
+              type="submit"
+              className="px-4 py-1.5 bg-on-track hover:bg-on-track/80 text-white rounded-lg text-sm font-medium transition-colors"
+            >
+              Create
+            </button>
+          </form>
+        </Card>
+      )}
+
+      {goals.length === 0 ? (
+        <Card>
+          <div className="text-center py-6 text-text-muted text-sm">
+            <p>No goals yet.</p>
+            <p className="mt-1">
+              Click &ldquo;Add Goal&rdquo; to start tracking a house deposit,
+              emergency fund or holiday.
+            </p>
+          </div>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {goals.map((goal) => (
+            <GoalCard
+              key={goal.id}
+              goal={goal}
+              accounts={accounts}
+              onLinkAccount={handleLinkAccount}
+              onContribute={handleContribute}
+              onCelebrate={handleCelebrate}
+              onDelete={handleDelete}
+            />
+          ))}
+        </div>
+      )}
+
+      <AIAdvisor goals={goals} />
+    </div>
+  );
+}
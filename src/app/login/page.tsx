@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 
 export default function LoginPage() {
@@ -11,6 +11,18 @@ export default function LoginPage() {
   const [password, setPassword] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
+  // Set once the password checks out for an account with two-factor on
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  // Only until the first user (the admin) has registered
+  const [registrationOpen, setRegistrationOpen] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/auth")
+      .then((res) => res.json())
+      .then((data) => setRegistrationOpen(data.registrationOpen === true))
+      .catch(() => setRegistrationOpen(false));
+  }, []);
 
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -18,9 +30,11 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      const payload = isRegister
-        ? { action: "register", name, email, password }
-        : { email, password };
+      const payload = challenge
+        ? { action: "verify-2fa", challenge, code }
+        : isRegister
+          ? { action: "register", name, email, password }
+          : { email, password };
 
       const res = await fetch("/api/auth", {
         method: "POST",
@@ -35,6 +49,12 @@ export default function LoginPage() {
         return;
       }
 
+      if (data.twoFactorRequired) {
+        setChallenge(data.challenge);
+        setCode("");
+        return;
+      }
+
       router.push("/");
       router.refresh();
     } catch {
@@ -52,6 +72,13 @@ export default function LoginPage() {
     setPassword("");
   }
 
+  function cancelTwoFactor() {
+    setChallenge(null);
+    setCode("");
+    setPassword("");
+    setError("");
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <div className="w-full max-w-md">
@@ -70,7 +97,33 @@ export default function LoginPage() {
               </div>
             )}
 
-            {isRegister && (
+            {challenge && (
+              <div>
+                <label
+                  htmlFor="code"
+                  className="block text-sm font-medium text-text-muted mb-1.5"
+                >
+                  Authentication code
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  className="w-full rounded-lg bg-background border border-surface-hover px-4 py-2.5 text-foreground placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
+                  placeholder="6-digit code"
+                />
+                <p className="mt-1.5 text-xs text-text-muted">
+                  From your authenticator app, or use one of your recovery codes.
+                </p>
+              </div>
+            )}
+
+            {!challenge && isRegister && (
               <div>
                 <label
                   htmlFor="name"
@@ -90,42 +143,46 @@ export default function LoginPage() {
               </div>
             )}
 
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-medium text-text-muted mb-1.5"
-              >
-                Email
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="w-full rounded-lg bg-background border border-surface-hover px-4 py-2.5 text-foreground placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
-                placeholder="you@example.com"
-              />
-            </div>
-
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-text-muted mb-1.5"
-              >
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                minLength={isRegister ? 6 : undefined}
-                className="w-full rounded-lg bg-background border border-surface-hover px-4 py-2.5 text-foreground placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
-                placeholder={isRegister ? "At least 6 characters" : "Enter password"}
-              />
-            </div>
+            {!challenge && (
+              <>
+                <div>
+                  <label
+                    htmlFor="email"
+                    className="block text-sm font-medium text-text-muted mb-1.5"
+                  >
+                    Email
+                  </label>
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="w-full rounded-lg bg-background border border-surface-hover px-4 py-2.5 text-foreground placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
+                    placeholder="you@example.com"
+                  />
+                </div>
+
+                <div>
+                  <label
+                    htmlFor="password"
+                    className="block text-sm font-medium text-text-muted mb-1.5"
+                  >
+                    Password
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    minLength={isRegister ? 6 : undefined}
+                    className="w-full rounded-lg bg-background border border-surface-hover px-4 py-2.5 text-foreground placeholder-text-muted focus:outline-none focus:ring-2 focus:ring-accent focus:border-transparent"
+                    placeholder={isRegister ? "At least 6 characters" : "Enter password"}
+                  />
+                </div>
+              </>
+            )}
 
             <button
               type="submit"
@@ -135,23 +192,40 @@ export default function LoginPage() {
               {loading
                 ? isRegister
                   ? "Creating account..."
-                  : "Signing in..."
+                  : challenge
+                    ? "Verifying..."
+                    : "Signing in..."
                 : isRegister
                   ? "Create Account"
-                  : "Sign In"}
+                  : challenge
+                    ? "Verify"
+                    : "Sign In"}
             </button>
           </form>
 
-          <div className="mt-6 text-center">
-            <button
-              onClick={switchMode}
-              className="text-sm text-accent-light hover:text-accent transition-colors"
-            >
-              {isRegister
-                ? "Already have an account? Sign in"
-                : "Don't have an account? Register"}
-            </button>
-          </div>
+          {challenge && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={cancelTwoFactor}
+                className="text-sm text-accent-light hover:text-accent transition-colors"
+              >
+                Back to sign in
+              </button>
+            </div>
+          )}
+
+          {registrationOpen && !challenge && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={switchMode}
+                className="text-sm text-accent-light hover:text-accent transition-colors"
+              >
+                {isRegister
+                  ? "Already have an account? Sign in"
+                  : "First time here? Create the admin account"}
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
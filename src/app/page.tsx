@@ -4,6 +4,7 @@ import { useState, useEffect, useCallback } from "react";
 import Card from "@/components/shared/Card";
 import AnimatedNumber from "@/components/shared/AnimatedNumber";
 import BudgetGauge from "@/components/dashboard/BudgetGauge";
+import AchievementToast from "@/components/dashboard/AchievementToast";
 import {
   IncomeExpenseChart,
   WeeklySpendChart,
@@ -12,7 +13,13 @@ import {
   PerformanceChart,
   ScoreRing,
 } from "@/components/dashboard/Charts";
-import type { BudgetVsActual, TransactionItem, AccountSummary } from "@/types";
+import type {
+  BudgetVsActual,
+  TransactionItem,
+  AccountSummary,
+  FamilyMember,
+  HealthScoreComponent,
+} from "@/types";
 import Link from "next/link";
 
 interface PeriodSummary {
@@ -71,6 +78,12 @@ interface AnalyticsData {
     percentage: number;
     count: number;
   }>;
+  memberSpend: Array<{
+    memberId: string | null;
+    name: string;
+    amount: number;
+    categories: Array<{ name: string; amount: number }>;
+  }>;
   salaryInfo: {
     detected: boolean;
     amount: number;
@@ -97,6 +110,7 @@ interface AnalyticsData {
     previousScore: number;
     trend: string;
     monthlyScores: Array<{ month: string; score: number }>;
+    components: HealthScoreComponent[];
   };
   accounts: Array<{
     name: string;
@@ -116,25 +130,37 @@ export default function DashboardPage() {
   const [periodStart, setPeriodStart] = useState("");
   const [periodEnd, setPeriodEnd] = useState("");
   const [loading, setLoading] = useState(true);
+  // Count card holds that haven't posted yet in budgets and charts
+  const [includePending, setIncludePending] = useState(true);
+  // One family member's spending ("unassigned" for shared), or everyone's
+  const [member, setMember] = useState("");
+  const [members, setMembers] = useState<FamilyMember[]>([]);
 
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [insights, setInsights] = useState<AIInsightsData | null>(null);
   const [insightsLoading, setInsightsLoading] = useState(false);
 
   const fetchDashboardData = useCallback(async () => {
+    const params = new URLSearchParams();
+    if (!includePending) params.set("pending", "exclude");
+    if (member) params.set("member", member);
+    const query = params.toString() ? `?${params}` : "";
+    const txQuery = member ? `&member=${member}` : "";
     try {
-      const [actualsRes, txRes, accountsRes, analyticsRes] = await Promise.all([
-        fetch("/api/budgets/actuals"),
-        fetch("/api/transactions?pageSize=10"),
+      const [actualsRes, txRes, accountsRes, analyticsRes, membersRes] = await Promise.all([
+        fetch(`/api/budgets/actuals${query}`),
+        fetch(`/api/transactions?pageSize=10${txQuery}`),
         fetch("/api/accounts"),
-        fetch("/api/analytics"),
+        fetch(`/api/analytics${query}`),
+        fetch("/api/users"),
       ]);
 
-      const [actualsData, txData, accountsData, analyticsData] = await Promise.all([
+      const [actualsData, txData, accountsData, analyticsData, membersData] = await Promise.all([
         actualsRes.json(),
         txRes.json(),
         accountsRes.json(),
         analyticsRes.json(),
+        membersRes.json(),
       ]);
 
       setBudgetActuals(actualsData.actuals || []);
@@ -145,6 +171,7 @@ export default function DashboardPage() {
       setPeriodEnd(actualsData.periodEnd || "");
       setRecentTransactions(txData.data || []);
       setAccounts(accountsData.accounts || []);
+      setMembers(membersData.users || []);
 
       if (!analyticsData.error) {
         setAnalytics(analyticsData);
@@ -154,7 +181,7 @@ export default function DashboardPage() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [includePending, member]);
 
   const fetchInsights = useCallback(async () => {
     setInsightsLoading(true);
@@ -229,11 +256,37 @@ export default function DashboardPage() {
 
   return (
     <div className="space-y-6">
+      <AchievementToast />
+
       {/* ── Header ── */}
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold">Dashboard</h1>
           <p className="text-sm text-text-muted">{periodLabel}</p>
+          <label className="flex items-center gap-2 text-xs text-text-muted mt-1">
+            <input
+              type="checkbox"
+              checked={includePending}
+              onChange={(e) => setIncludePending(e.target.checked)}
+              className="rounded border-surface-hover bg-background"
+            />
+            Include pending transactions
+          </label>
+          {members.length > 1 && (
+            <select
+              value={member}
+              onChange={(e) => setMember(e.target.value)}
+              className="mt-1 bg-background border border-surface-hover rounded-lg px-2 py-1 text-xs text-foreground"
+            >
+              <option value="">Everyone</option>
+              {members.map((m) => (
+                <option key={m.id} value={m.id}>
+                  {m.name}
+                </option>
+              ))}
+              <option value="unassigned">Shared</option>
+            </select>
+          )}
         </div>
         {salary?.detected && (
           <div className="text-right">
@@ -299,6 +352,30 @@ export default function DashboardPage() {
         </div>
       )}
 
+      {/* ── Spending per family member ── */}
+      {analytics && !member && analytics.memberSpend.some((m) => m.memberId) && (
+        <Card title="Who Spent What (90 days)">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {analytics.memberSpend.map((m) => (
+              <div key={m.memberId || "shared"}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-sm font-medium text-foreground">{m.name}</span>
+                  <span className="text-sm font-mono text-over-budget">
+                    ${m.amount.toLocaleString()}
+                  </span>
+                </div>
+                {m.categories.slice(0, 4).map((c) => (
+                  <div key={c.name} className="flex justify-between text-xs text-text-muted py-0.5">
+                    <span className="truncate">{c.name}</span>
+                    <span className="font-mono ml-2">${c.amount.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* ── This Month Daily Cumulative + Performance ── */}
       {analytics && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -342,6 +419,19 @@ export default function DashboardPage() {
                   )}
                 </div>
               </div>
+              <div className="space-y-2 mb-4">
+                {analytics.performance.components.map((c) => (
+                  <div key={c.key}>
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="text-foreground font-medium">
+                        {c.label} <span className="text-text-muted">({Math.round(c.weight * 100)}%)</span>
+                      </span>
+                      <span className="font-mono text-foreground">{c.score}</span>
+                    </div>
+                    <p className="text-xs text-text-muted">{c.explanation}</p>
+                  </div>
+                ))}
+              </div>
               {analytics.performance.monthlyScores.length > 1 && (
                 <PerformanceChart data={analytics.performance.monthlyScores} />
               )}
@@ -459,7 +549,7 @@ export default function DashboardPage() {
           ) : (
             <div className="space-y-1">
               {budgetActuals.map((item) => (
-                <BudgetGauge key={item.categoryId} item={item} />
+                <BudgetGauge key={`${item.categoryId}-${item.memberId}`} item={item} />
               ))}
             </div>
           )}
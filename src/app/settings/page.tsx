@@ -2,11 +2,24 @@
 
 import { useState, useEffect } from "react";
 import Card from "@/components/shared/Card";
-import type { CategoryItem, AccountSummary } from "@/types";
+import CategoryRules from "@/components/settings/CategoryRules";
+import FamilyMembers from "@/components/settings/FamilyMembers";
+import Sessions from "@/components/settings/Sessions";
+import TwoFactor from "@/components/settings/TwoFactor";
+import JobProgress, { watchJob } from "@/components/shared/JobProgress";
+import type {
+  CategoryItem,
+  AccountSummary,
+  AuthUser,
+  FamilyMember,
+  JobItem,
+} from "@/types";
 
 export default function SettingsPage() {
   const [accounts, setAccounts] = useState<AccountSummary[]>([]);
   const [categories, setCategories] = useState<CategoryItem[]>([]);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [members, setMembers] = useState<FamilyMember[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Account form
@@ -19,6 +32,7 @@ export default function SettingsPage() {
   const [editingAccountId, setEditingAccountId] = useState<string | null>(null);
   const [editBalance, setEditBalance] = useState("");
   const [editName, setEditName] = useState("");
+  const [editOwner, setEditOwner] = useState("");
 
   // Category form
   const [newCatName, setNewCatName] = useState("");
@@ -28,14 +42,20 @@ export default function SettingsPage() {
   useEffect(() => {
     async function fetchData() {
       try {
-        const [accRes, catRes] = await Promise.all([
+        const [accRes, catRes, authRes, membersRes] = await Promise.all([
           fetch("/api/accounts"),
           fetch("/api/categories"),
+          fetch("/api/auth"),
+          fetch("/api/users"),
         ]);
         const accData = await accRes.json();
         const catData = await catRes.json();
+        const authData = await authRes.json();
+        const membersData = await membersRes.json();
         setAccounts(accData.accounts || []);
         setCategories(catData.categories || []);
+        setUser(authData.user || null);
+        setMembers(membersData.users || []);
       } catch (err) {
         console.error("Settings fetch error:", err);
       } finally {
@@ -70,11 +90,15 @@ export default function SettingsPage() {
     setEditingAccountId(acc.id);
     setEditBalance(acc.balance.toFixed(2));
     setEditName(acc.name);
+    setEditOwner(acc.ownerId || "");
   }
 
   async function handleSaveAccount(id: string) {
     const balanceNum = parseFloat(editBalance);
     if (isNaN(balanceNum)) return;
+    const acc = accounts.find((a) => a.id === id);
+    // Only send a changed owner; it re-attributes the account's transactions
+    const ownerChanged = editOwner !== (acc?.ownerId || "");
 
     const res = await fetch("/api/accounts", {
       method: "PATCH",
@@ -83,6 +107,7 @@ export default function SettingsPage() {
         id,
         name: editName || undefined,
         balance: balanceNum,
+        ownerId: ownerChanged ? editOwner || null : undefined,
       }),
     });
     const data = await res.json();
@@ -143,6 +168,7 @@ export default function SettingsPage() {
   // AI recategorise
   const [aiRunning, setAiRunning] = useState(false);
   const [aiResult, setAiResult] = useState<string | null>(null);
+  const [aiJob, setAiJob] = useState<JobItem | null>(null);
 
   async function handleRecategorise() {
     setAiRunning(true);
@@ -154,13 +180,50 @@ export default function SettingsPage() {
       const data = await res.json();
       if (data.error) {
         setAiResult(`Error: ${data.error}`);
+        return;
+      }
+
+      const job = await watchJob(data.jobId, setAiJob);
+      if (job.status === "completed") {
+        setAiResult(job.message);
+      } else if (job.status === "cancelled") {
+        setAiResult("Error: AI categorisation cancelled");
       } else {
-        setAiResult(data.message);
+        setAiResult(`Error: ${job.error || "AI categorisation failed"}`);
       }
     } catch {
       setAiResult("Failed to run AI categorisation");
     } finally {
       setAiRunning(false);
+      setAiJob(null);
+    }
+  }
+
+  // Period snapshots backfill
+  const [backfillRunning, setBackfillRunning] = useState(false);
+  const [backfillResult, setBackfillResult] = useState<string | null>(null);
+
+  async function handleBackfill() {
+    setBackfillRunning(true);
+    setBackfillResult(null);
+    try {
+      const res = await fetch("/api/snapshots", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "backfill" }),
+      });
+      const data = await res.json();
+      if (data.error) {
+        setBackfillResult(`Error: ${data.error}`);
+      } else {
+        setBackfillResult(
+          `Built ${data.backfilled.fortnight} fortnightly and ${data.backfilled.month} monthly report cards.`
+        );
+      }
+    } catch {
+      setBackfillResult("Failed to backfill snapshots");
+    } finally {
+      setBackfillRunning(false);
     }
   }
 
@@ -280,6 +343,23 @@ export default function SettingsPage() {
                           className="w-full bg-surface border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground font-mono"
                         />
                       </div>
+                      {members.length > 1 && (
+                        <div className="w-[160px]">
+                          <label className="block text-xs text-text-muted mb-1">Whose spending</label>
+                          <select
+                            value={editOwner}
+                            onChange={(e) => setEditOwner(e.target.value)}
+                            className="w-full bg-surface border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground"
+                          >
+                            <option value="">Shared</option>
+                            {members.map((m) => (
+                              <option key={m.id} value={m.id}>
+                                {m.name}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
                       <button
                         onClick={() => handleSaveAccount(acc.id)}
                         className="px-3 py-1.5 bg-on-track hover:bg-on-track/80 text-white rounded-lg text-sm font-medium transition-colors"
@@ -314,6 +394,11 @@ export default function SettingsPage() {
                         <span className="text-xs text-text-muted capitalize">
                           {acc.type.replace("-", " ")}
                         </span>
+                        {acc.ownerId && (
+                          <span className="text-xs text-text-muted">
+                            {members.find((m) => m.id === acc.ownerId)?.name}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-3">
@@ -359,6 +444,11 @@ export default function SettingsPage() {
             >
               {aiRunning ? "Running AI..." : "Run AI Categorisation"}
             </button>
+            {aiJob && (
+              <div className="mt-3 max-w-md">
+                <JobProgress job={aiJob} />
+              </div>
+            )}
             {aiResult && (
               <p
                 className={`mt-2 text-sm ${
@@ -374,6 +464,38 @@ export default function SettingsPage() {
         </div>
       </Card>
 
+      {/* Period snapshots */}
+      <Card title="Period Report Cards">
+        <div>
+          <p className="text-sm text-foreground font-medium mb-1">
+            Backfill Past Periods
+          </p>
+          <p className="text-xs text-text-muted mb-3">
+            Rebuild the fortnightly and monthly report cards for every past
+            period from your existing transactions. New periods are closed
+            automatically after each sync or import.
+          </p>
+          <button
+            onClick={handleBackfill}
+            disabled={backfillRunning}
+            className="px-4 py-2 bg-accent hover:bg-accent-light text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
+          >
+            {backfillRunning ? "Backfilling..." : "Backfill Snapshots"}
+          </button>
+          {backfillResult && (
+            <p
+              className={`mt-2 text-sm ${
+                backfillResult.startsWith("Error")
+                  ? "text-over-budget"
+                  : "text-on-track"
+              }`}
+            >
+              {backfillResult}
+            </p>
+          )}
+        </div>
+      </Card>
+
       {/* Categories */}
       <Card title="Categories">
         <div className="space-y-4">
@@ -441,6 +563,22 @@ export default function SettingsPage() {
           </div>
         </div>
       </Card>
+
+      {/* Category rules */}
+      <CategoryRules
+        categories={categories}
+        accounts={accounts}
+        members={members.length > 1 ? members : []}
+      />
+
+      {/* Family members (admins only) */}
+      {user?.role === "admin" && <FamilyMembers currentUserId={user.id} />}
+
+      {/* Two-factor sign-in */}
+      <TwoFactor />
+
+      {/* Signed-in devices */}
+      <Sessions />
     </div>
   );
 }
@@ -1,9 +1,19 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import type { TransactionItem, CategoryItem, AccountSummary } from "@/types";
+import type {
+  TransactionItem,
+  CategoryItem,
+  AccountSummary,
+  FamilyMember,
+  ImportProfileInfo,
+  JobItem,
+} from "@/types";
 import TransactionList from "@/components/transactions/TransactionList";
 import ImportStatus from "@/components/transactions/ImportStatus";
+import ImportWizard from "@/components/transactions/ImportWizard";
+import ImportHistory from "@/components/transactions/ImportHistory";
+import { isJobFinished, watchJobs } from "@/components/shared/JobProgress";
 
 export default function TransactionsPage() {
   const [transactions, setTransactions] = useState<TransactionItem[]>([]);
@@ -19,8 +29,11 @@ export default function TransactionsPage() {
   const [toDate, setToDate] = useState("");
   const [categoryFilter, setCategoryFilter] = useState("");
   const [accountFilter, setAccountFilter] = useState("");
+  const [memberFilter, setMemberFilter] = useState("");
+  const [members, setMembers] = useState<FamilyMember[]>([]);
   const [directionFilter, setDirectionFilter] = useState("");
   const [search, setSearch] = useState("");
+  const [duplicatesOnly, setDuplicatesOnly] = useState(false);
 
   // Import
   const [importStatus, setImportStatus] = useState<
@@ -28,6 +41,12 @@ export default function TransactionsPage() {
   >("idle");
   const [importMessage, setImportMessage] = useState("");
   const [importAccountId, setImportAccountId] = useState("");
+  const [importProfiles, setImportProfiles] = useState<ImportProfileInfo[]>([]);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+  // Imports and syncs in progress, including ones started elsewhere
+  const [runningJobs, setRunningJobs] = useState<JobItem[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const fetchTransactions = useCallback(async () => {
@@ -37,8 +56,10 @@ export default function TransactionsPage() {
     if (toDate) params.set("toDate", toDate);
     if (categoryFilter) params.set("categoryId", categoryFilter);
     if (accountFilter) params.set("accountId", accountFilter);
+    if (memberFilter) params.set("member", memberFilter);
     if (directionFilter) params.set("direction", directionFilter);
     if (search) params.set("search", search);
+    if (duplicatesOnly) params.set("review", "duplicates");
     params.set("page", page.toString());
     params.set("pageSize", "50");
 
@@ -53,22 +74,59 @@ export default function TransactionsPage() {
     } finally {
       setLoading(false);
     }
-  }, [fromDate, toDate, categoryFilter, accountFilter, directionFilter, search, page]);
+  }, [fromDate, toDate, categoryFilter, accountFilter, memberFilter, directionFilter, search, duplicatesOnly, page]);
 
   useEffect(() => {
     fetchTransactions();
   }, [fetchTransactions]);
 
+  // Keep the job stream open across filter changes
+  const refreshRef = useRef(fetchTransactions);
+  useEffect(() => {
+    refreshRef.current = fetchTransactions;
+  }, [fetchTransactions]);
+
+  useEffect(() => {
+    return watchJobs(["import", "sync"], (job) => {
+      setRunningJobs((prev) => {
+        const others = prev.filter((j) => j.id !== job.id);
+        return isJobFinished(job) ? others : [...others, job];
+      });
+      if (!isJobFinished(job)) return;
+
+      const label = job.type === "sync" ? "Sync" : "Import";
+      if (job.status === "completed") {
+        setImportStatus("success");
+        setImportMessage(job.message || `${label} complete`);
+      } else {
+        setImportStatus("error");
+        setImportMessage(
+          job.status === "cancelled" ? `${label} cancelled` : job.error || `${label} failed`
+        );
+      }
+      setHistoryKey((k) => k + 1);
+      refreshRef.current();
+    });
+  }, []);
+
   useEffect(() => {
     async function fetchMeta() {
-      const [catRes, accRes] = await Promise.all([
+      const [catRes, accRes, profileRes, membersRes] = await Promise.all([
         fetch("/api/categories"),
         fetch("/api/accounts"),
+        fetch("/api/transactions/import"),
+        fetch("/api/users"),
       ]);
       const catData = await catRes.json();
       const accData = await accRes.json();
+      const profileData = await profileRes.json();
+      const membersData = await membersRes.json();
       setCategories(catData.categories || []);
       setAccounts(accData.accounts || []);
+      setImportProfiles(profileData.profiles || []);
+      // Attribution only matters once there's more than one person
+      const users: FamilyMember[] = membersData.users || [];
+      setMembers(users.length > 1 ? users : []);
     }
     fetchMeta();
   }, []);
@@ -96,6 +154,20 @@ export default function TransactionsPage() {
     );
   }
 
+  async function handleMemberChange(txId: string, memberId: string | null) {
+    const res = await fetch("/api/transactions", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: txId, memberId }),
+    });
+    const data = await res.json();
+    if (data.transaction) {
+      setTransactions((prev) =>
+        prev.map((tx) => (tx.id === txId ? data.transaction : tx))
+      );
+    }
+  }
+
   async function handleBulkCategorise(txIds: string[], categoryId: string) {
     await fetch("/api/transactions/bulk-categorise", {
       method: "POST",
@@ -119,6 +191,24 @@ export default function TransactionsPage() {
     );
   }
 
+  async function handleResolveDuplicate(txId: string, keep: boolean) {
+    if (keep) {
+      await fetch("/api/transactions", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: txId, notDuplicate: true }),
+      });
+      setTransactions((prev) =>
+        prev.map((tx) => (tx.id === txId ? { ...tx, duplicateOfId: null } : tx))
+      );
+      return;
+    }
+
+    if (!window.confirm("Delete this transaction as a duplicate?")) return;
+    const res = await fetch(`/api/transactions?id=${txId}`, { method: "DELETE" });
+    if (res.ok) fetchTransactions();
+  }
+
   function triggerImport() {
     const targetAccount = importAccountId || (accounts.length === 1 ? accounts[0].id : "");
     if (!targetAccount) {
@@ -133,7 +223,7 @@ export default function TransactionsPage() {
     fileInputRef.current?.click();
   }
 
-  async function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+  function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -144,34 +234,26 @@ export default function TransactionsPage() {
       return;
     }
 
-    setImportStatus("uploading");
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("accountId", targetAccount);
-
-    try {
-      const res = await fetch("/api/transactions/import", {
-        method: "POST",
-        body: formData,
-      });
-      const data = await res.json();
-      if (res.ok) {
-        setImportStatus("success");
-        setImportMessage(data.message);
-        fetchTransactions();
-      } else {
-        setImportStatus("error");
-        setImportMessage(data.error);
-      }
-    } catch {
-      setImportStatus("error");
-      setImportMessage("Import failed");
-    }
+    // Preview and map columns before anything is saved
+    setImportStatus("idle");
+    setImportFile(file);
 
     // Reset file input
     if (fileInputRef.current) fileInputRef.current.value = "";
   }
 
+  function handleImportQueued() {
+    // Progress and the result arrive over the job stream
+    setImportFile(null);
+    setImportStatus("idle");
+  }
+
+  function handleRolledBack(message: string) {
+    setImportStatus("success");
+    setImportMessage(message);
+    fetchTransactions();
+  }
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -197,21 +279,44 @@ export default function TransactionsPage() {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv"
+            accept=".csv,.ofx,.qfx,.qif"
             onChange={handleImport}
             className="hidden"
           />
+          <button
+            onClick={() => setShowHistory((v) => !v)}
+            className="px-3 py-1.5 bg-surface border border-surface-hover rounded-lg text-sm"
+          >
+            {showHistory ? "Hide History" : "Import History"}
+          </button>
           <button
             onClick={triggerImport}
             className="px-3 py-1.5 bg-accent hover:bg-accent-light text-white rounded-lg text-sm font-medium transition-colors"
           >
-            Import CSV
+            Import
           </button>
         </div>
       </div>
 
+      {runningJobs.map((job) => (
+        <ImportStatus key={job.id} status="uploading" job={job} />
+      ))}
       <ImportStatus status={importStatus} message={importMessage} />
 
+      {importFile && (
+        <ImportWizard
+          file={importFile}
+          accountId={importAccountId || accounts[0]?.id}
+          profiles={importProfiles}
+          onCancel={() => setImportFile(null)}
+          onQueued={handleImportQueued}
+        />
+      )}
+
+      {showHistory && (
+        <ImportHistory refreshKey={historyKey} onRolledBack={handleRolledBack} />
+      )}
+
       {/* Filters */}
       <div className="flex flex-wrap items-center gap-3 bg-surface rounded-xl border border-surface-hover p-4">
         <input
@@ -255,6 +360,22 @@ export default function TransactionsPage() {
           ))}
         </select>
 
+        {members.length > 0 && (
+          <select
+            value={memberFilter}
+            onChange={(e) => { setMemberFilter(e.target.value); setPage(1); }}
+            className="bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground"
+          >
+            <option value="">Everyone</option>
+            {members.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.name}
+              </option>
+            ))}
+            <option value="unassigned">Shared</option>
+          </select>
+        )}
+
         <select
           value={directionFilter}
           onChange={(e) => { setDirectionFilter(e.target.value); setPage(1); }}
@@ -272,6 +393,16 @@ export default function TransactionsPage() {
           placeholder="Search descriptions..."
           className="bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground flex-1 min-w-[200px]"
         />
+
+        <label className="flex items-center gap-2 text-sm text-text-muted">
+          <input
+            type="checkbox"
+            checked={duplicatesOnly}
+            onChange={(e) => { setDuplicatesOnly(e.target.checked); setPage(1); }}
+            className="rounded border-surface-hover bg-background"
+          />
+          Possible duplicates
+        </label>
       </div>
 
       {/* Transaction list */}
@@ -282,8 +413,11 @@ export default function TransactionsPage() {
           <TransactionList
             transactions={transactions}
             categories={categories}
+            members={members}
             onCategoryChange={handleCategoryChange}
+            onMemberChange={handleMemberChange}
             onBulkCategorise={handleBulkCategorise}
+            onResolveDuplicate={handleResolveDuplicate}
           />
         )}
       </div>
@@ -0,0 +1,71 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { AchievementItem } from "@/types";
+
+const TYPE_ICONS: Record<string, string> = {
+  milestone: "🏁",
+  goal: "🎯",
+  budget: "✅",
+  streak: "🔥",
+  health: "💚",
+};
+
+export default function AchievementToast() {
+  const [unseen, setUnseen] = useState<AchievementItem[]>([]);
+
+  useEffect(() => {
+    fetch("/api/achievements?unseen=true")
+      .then((res) => res.json())
+      .then((data) => setUnseen(data.achievements || []))
+      .catch((err) => console.error("Achievements fetch error:", err));
+  }, []);
+
+  async function dismiss(ids: string[]) {
+    setUnseen((prev) => prev.filter((a) => !ids.includes(a.id)));
+    await fetch("/api/achievements", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids }),
+    });
+  }
+
+  if (unseen.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 space-y-2">
+      {unseen.slice(0, 3).map((a) => (
+        <div
+          key={a.id}
+          className="bg-surface border border-accent rounded-xl p-4 shadow-lg flex items-start gap-3"
+        >
+          <span className="text-2xl">{TYPE_ICONS[a.type] || "🏆"}</span>
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-accent font-medium uppercase tracking-wider">
+              Badge unlocked
+            </p>
+            <p className="text-sm font-semibold text-foreground">{a.title}</p>
+            {a.description && (
+              <p className="text-xs text-text-muted">{a.description}</p>
+            )}
+          </div>
+          <button
+            onClick={() => dismiss([a.id])}
+            className="text-text-muted hover:text-foreground text-sm"
+            aria-label="Dismiss"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      {unseen.length > 3 && (
+        <button
+          onClick={() => dismiss(unseen.map((a) => a.id))}
+          className="w-full text-xs text-text-muted hover:text-foreground"
+        >
+          Dismiss all {unseen.length} badges
+        </button>
+      )}
+    </div>
+  );
+}
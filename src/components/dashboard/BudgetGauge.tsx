@@ -24,6 +24,9 @@ export default function BudgetGauge({ item }: BudgetGaugeProps) {
         <div className="flex items-center justify-between mb-1">
           <span className="text-sm text-foreground truncate">
             {item.categoryName}
+            {item.memberName && (
+              <span className="text-text-muted"> · {item.memberName}&apos;s allowance</span>
+            )}
           </span>
           <span className="text-xs text-text-muted ml-2 shrink-0">
             ${item.actualAmount.toFixed(0)} / ${item.budgetAmount.toFixed(0)}
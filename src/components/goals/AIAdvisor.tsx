@@ -0,0 +1,148 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import Card from "@/components/shared/Card";
+import type { AdvisorChatItem, GoalItem } from "@/types";
+
+interface AIAdvisorProps {
+  goals: GoalItem[];
+}
+
+export default function AIAdvisor({ goals }: AIAdvisorProps) {
+  const [chat, setChat] = useState<AdvisorChatItem | null>(null);
+  const [input, setInput] = useState("");
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    fetch("/api/advisor")
+      .then((res) => res.json())
+      .then((data) => setChat(data.chat || null))
+      .catch((err) => console.error("Advisor fetch error:", err));
+  }, []);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [chat?.messages.length]);
+
+  const nextGoal = goals.find((g) => !g.isCompleted);
+  const quickPrompts = [
+    nextGoal ? `How do we hit ${nextGoal.name} on time?` : null,
+    "Where can we cut spending?",
+    "Review our budget this fortnight",
+    "What if we saved an extra $200/fortnight?",
+  ].filter((p): p is string => p !== null);
+
+  async function send(message: string) {
+    if (!message.trim() || sending) return;
+    setSending(true);
+    setInput("");
+
+    // Show the question straight away while the advisor thinks
+    setChat((prev) => ({
+      id: prev?.id || "",
+      summary: prev?.summary || message,
+      createdAt: prev?.createdAt || new Date().toISOString(),
+      messages: [...(prev?.messages || []), { role: "user", content: message }],
+    }));
+
+    try {
+      const res = await fetch("/api/advisor", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message, chatId: chat?.id || undefined }),
+      });
+      const data = await res.json();
+      if (data.chat) {
+        setChat(data.chat);
+      } else {
+        alert(data.error || "Advisor request failed");
+      }
+    } catch (err) {
+      console.error("Advisor send error:", err);
+    } finally {
+      setSending(false);
+    }
+  }
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    send(input);
+  }
+
+  const messages = chat?.messages || [];
+
+  return (
+    <Card
+      title="AI Advisor"
+      action={
+        messages.length > 0 && (
+          <button
+            onClick={() => setChat(null)}
+            className="text-xs text-text-muted hover:text-foreground transition-colors"
+          >
+            New conversation
+          </button>
+        )
+      }
+    >
+      <div className="space-y-3 max-h-[420px] overflow-y-auto pr-1">
+        {messages.length === 0 && (
+          <p className="text-sm text-text-muted">
+            Ask about your spending, budgets or how to reach your goals sooner.
+          </p>
+        )}
+        {messages.map((m, i) => (
+          <div
+            key={i}
+            className={`flex ${m.role === "user" ? "justify-end" : "justify-start"}`}
+          >
+            <div
+              className={`max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+                m.role === "user"
+                  ? "bg-accent text-white"
+                  : "bg-background border border-surface-hover text-foreground"
+              }`}
+            >
+              {m.content}
+            </div>
+          </div>
+        ))}
+        {sending && (
+          <div className="text-xs text-text-muted">Advisor is thinking...</div>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-4">
+        {quickPrompts.map((prompt) => (
+          <button
+            key={prompt}
+            onClick={() => send(prompt)}
+            disabled={sending}
+            className="px-2.5 py-1 rounded-full border border-surface-hover text-xs text-text-muted hover:text-foreground hover:bg-surface-hover transition-colors disabled:opacity-50"
+          >
+            {prompt}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 mt-3">
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="Ask the advisor..."
+          className="flex-1 bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground"
+        />
+        <button
+          type="submit"
+          disabled={sending || !input.trim()}
+          className="px-4 py-1.5 bg-accent hover:bg-accent-light text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          Send
+        </button>
+      </form>
+    </Card>
+  );
+}
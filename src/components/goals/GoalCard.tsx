@@ -0,0 +1,217 @@
+"use client";
+
+import { useState } from "react";
+import type { GoalItem, AccountSummary } from "@/types";
+
+interface GoalCardProps {
+  goal: GoalItem;
+  accounts: AccountSummary[];
+  onLinkAccount: (goalId: string, accountId: string) => void;
+  onContribute: (goalId: string, amount: number, note: string) => void;
+  onCelebrate: (goalId: string) => void;
+  onDelete: (goalId: string) => void;
+}
+
+function formatDate(iso: string | null): string {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleDateString("en-AU", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+export default function GoalCard({
+  goal,
+  accounts,
+  onLinkAccount,
+  onContribute,
+  onCelebrate,
+  onDelete,
+}: GoalCardProps) {
+  const [showForm, setShowForm] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  const percentage = Math.min(goal.percentage, 100);
+  const barColor =
+    percentage >= 75
+      ? "bg-on-track"
+      : percentage >= 50
+        ? "bg-yellow-400"
+        : percentage >= 25
+          ? "bg-warning"
+          : "bg-over-budget";
+
+  const uncelebrated = goal.milestones.filter(
+    (m) => m.reachedAt && !m.celebrated
+  );
+
+  // Behind schedule if the projection lands after the target date
+  const behind =
+    goal.targetDate &&
+    !goal.isCompleted &&
+    (!goal.projectedDate ||
+      new Date(goal.projectedDate) > new Date(goal.targetDate));
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (isNaN(value) || value === 0) return;
+    onContribute(goal.id, value, note);
+    setAmount("");
+    setNote("");
+    setShowForm(false);
+  }
+
+  return (
+    <div className="bg-surface rounded-xl border border-surface-hover p-5">
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <span className="text-2xl">{goal.icon || "🎯"}</span>
+          <div>
+            <p className="text-sm font-medium text-foreground">{goal.name}</p>
+            <p className="text-xs text-text-muted capitalize">
+              {goal.horizon} term · Priority {goal.priority}
+            </p>
+          </div>
+        </div>
+        {goal.isCompleted && (
+          <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-on-track/15 text-on-track font-medium">
+            Complete
+          </span>
+        )}
+      </div>
+
+      {uncelebrated.length > 0 && (
+        <div className="flex items-center justify-between bg-accent/10 rounded-lg px-3 py-2 mb-3">
+          <p className="text-xs text-accent-light">
+            🎉 Reached {uncelebrated.map((m) => `${m.percentage}%`).join(", ")}!
+          </p>
+          <button
+            onClick={() => onCelebrate(goal.id)}
+            className="text-xs text-text-muted hover:text-foreground"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-baseline justify-between mb-1">
+        <span className="text-lg font-bold font-mono text-foreground">
+          ${goal.currentAmount.toLocaleString("en-AU", { maximumFractionDigits: 0 })}
+        </span>
+        <span className="text-xs text-text-muted">
+          of ${goal.targetAmount.toLocaleString("en-AU", { maximumFractionDigits: 0 })} ·{" "}
+          {goal.percentage.toFixed(0)}%
+        </span>
+      </div>
+      <div className="relative h-2 bg-background rounded-full overflow-hidden mb-1">
+        <div
+          className={`h-full rounded-full transition-all duration-500 ${
+            goal.colour ? "" : barColor
+          }`}
+          style={{
+            width: `${percentage}%`,
+            backgroundColor: goal.colour || undefined,
+          }}
+        />
+      </div>
+      <div className="flex justify-between mb-3">
+        {goal.milestones.map((m) => (
+          <span
+            key={m.id}
+            className={`text-[10px] ${
+              m.reachedAt ? "text-on-track" : "text-text-muted"
+            }`}
+          >
+            {m.reachedAt ? "✓ " : ""}
+            {m.percentage}%
+          </span>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-xs mb-3">
+        <div>
+          <p className="text-text-muted">Target date</p>
+          <p className="text-foreground">{formatDate(goal.targetDate)}</p>
+        </div>
+        <div>
+          <p className="text-text-muted">Projected</p>
+          <p className={behind ? "text-warning" : "text-foreground"}>
+            {goal.isCompleted
+              ? formatDate(goal.completedAt)
+              : goal.projectedDate
+                ? formatDate(goal.projectedDate)
+                : "No recent contributions"}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-xs mb-3">
+        <span className="text-text-muted shrink-0">Funded by transfers to</span>
+        <select
+          value={goal.accountId || ""}
+          onChange={(e) => onLinkAccount(goal.id, e.target.value)}
+          className="flex-1 min-w-0 bg-background border border-surface-hover rounded px-2 py-1 text-xs text-foreground"
+        >
+          <option value="">No linked account</option>
+          {accounts.map((a) => (
+            <option key={a.id} value={a.id}>
+              {a.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {showForm ? (
+        <form onSubmit={handleSubmit} className="flex items-center gap-2">
+          <input
+            type="number"
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Amount"
+            required
+            className="w-24 bg-background border border-surface-hover rounded-lg px-2 py-1.5 text-sm text-foreground font-mono"
+          />
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="flex-1 min-w-0 bg-background border border-surface-hover rounded-lg px-2 py-1.5 text-sm text-foreground"
+          />
+          <button
+            type="submit"
+            className="px-3 py-1.5 bg-on-track hover:bg-on-track/80 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Add
+          </button>
+          <button
+            type="button"
+            onClick={() => setShowForm(false)}
+            className="text-xs text-text-muted hover:text-foreground"
+          >
+            Cancel
+          </button>
+        </form>
+      ) : (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-3 py-1.5 bg-accent hover:bg-accent-light text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Add Contribution
+          </button>
+          <button
+            onClick={() => onDelete(goal.id)}
+            className="text-xs text-text-muted hover:text-over-budget transition-colors"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
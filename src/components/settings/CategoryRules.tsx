@@ -0,0 +1,546 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Card from "@/components/shared/Card";
+import type {
+  AccountSummary,
+  CategoryItem,
+  CategoryRuleItem,
+  FamilyMember,
+  RuleMatchPreview,
+} from "@/types";
+
+interface CategoryRulesProps {
+  categories: CategoryItem[];
+  accounts: AccountSummary[];
+  // Empty hides the "attribute to" action
+  members: FamilyMember[];
+}
+
+// Form values are kept as strings; blank means "any" / "leave unchanged"
+interface RuleForm {
+  pattern: string;
+  categoryId: string;
+  priority: string;
+  direction: string;
+  accountId: string;
+  merchantPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  dayOfMonthMin: string;
+  dayOfMonthMax: string;
+  setNotes: string;
+  setExcluded: string;
+  setTransfer: string;
+  setCleanDescription: string;
+  setMemberId: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  pattern: "",
+  categoryId: "",
+  priority: "100",
+  direction: "",
+  accountId: "",
+  merchantPattern: "",
+  minAmount: "",
+  maxAmount: "",
+  dayOfMonthMin: "",
+  dayOfMonthMax: "",
+  setNotes: "",
+  setExcluded: "",
+  setTransfer: "",
+  setCleanDescription: "",
+  setMemberId: "",
+};
+
+const str = (v: string | number | boolean | null) => (v === null ? "" : String(v));
+
+function formFromRule(rule: CategoryRuleItem): RuleForm {
+  return {
+    pattern: rule.pattern,
+    categoryId: str(rule.categoryId),
+    priority: str(rule.priority),
+    direction: str(rule.direction),
+    accountId: str(rule.accountId),
+    merchantPattern: str(rule.merchantPattern),
+    minAmount: str(rule.minAmount),
+    maxAmount: str(rule.maxAmount),
+    dayOfMonthMin: str(rule.dayOfMonthMin),
+    dayOfMonthMax: str(rule.dayOfMonthMax),
+    setNotes: str(rule.setNotes),
+    setExcluded: str(rule.setExcluded),
+    setTransfer: str(rule.setTransfer),
+    setCleanDescription: str(rule.setCleanDescription),
+    setMemberId: str(rule.setMemberId),
+  };
+}
+
+/**
+ * One-line summary of a rule's extra conditions and actions.
+ */
+function describeRule(rule: CategoryRuleItem): string {
+  const parts: string[] = [];
+  if (rule.direction) parts.push(rule.direction === "debit" ? "money out" : "money in");
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    parts.push(`$${rule.minAmount}–$${rule.maxAmount}`);
+  } else if (rule.minAmount !== null) {
+    parts.push(`≥ $${rule.minAmount}`);
+  } else if (rule.maxAmount !== null) {
+    parts.push(`≤ $${rule.maxAmount}`);
+  }
+  if (rule.accountName) parts.push(`on ${rule.accountName}`);
+  if (rule.merchantPattern) parts.push(`merchant ~ ${rule.merchantPattern}`);
+  if (rule.dayOfMonthMin !== null || rule.dayOfMonthMax !== null) {
+    parts.push(`day ${rule.dayOfMonthMin ?? 1}–${rule.dayOfMonthMax ?? 31}`);
+  }
+  if (rule.setExcluded !== null) parts.push(rule.setExcluded ? "exclude" : "include");
+  if (rule.setTransfer !== null) parts.push(rule.setTransfer ? "mark transfer" : "not a transfer");
+  if (rule.setCleanDescription) parts.push(`rename “${rule.setCleanDescription}”`);
+  if (rule.setMemberId) parts.push(`spent by ${rule.setMemberName || "a removed member"}`);
+  if (rule.setNotes) parts.push("adds note");
+  return parts.join(" · ");
+}
+
+const inputClass =
+  "bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground";
+
+export default function CategoryRules({
+  categories,
+  accounts,
+  members,
+}: CategoryRulesProps) {
+  const [rules, setRules] = useState<CategoryRuleItem[]>([]);
+  const [filter, setFilter] = useState("");
+
+  // Rule form (create or edit)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+
+  // Pattern preview
+  const [preview, setPreview] = useState<RuleMatchPreview[] | null>(null);
+  const [previewTotal, setPreviewTotal] = useState(0);
+  const [testing, setTesting] = useState(false);
+
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/category-rules")
+      .then((res) => res.json())
+      .then((data) => setRules(data.rules || []))
+      .catch((err) => console.error("Rules fetch error:", err));
+  }, []);
+
+  function update(field: keyof RuleForm, value: string) {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setShowAdvanced(false);
+    setPreview(null);
+  }
+
+  function startEdit(rule: CategoryRuleItem) {
+    setEditingId(rule.id);
+    setForm(formFromRule(rule));
+    setShowAdvanced(describeRule(rule) !== "" || rule.priority !== 100);
+    setPreview(null);
+    setMessage(null);
+  }
+
+  async function handleTest() {
+    setTesting(true);
+    try {
+      const res = await fetch("/api/category-rules/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(form),
+      });
+      const data = await res.json();
+      if (data.error) {
+        setMessage(`Error: ${data.error}`);
+        setPreview(null);
+      } else {
+        setPreview(data.matches || []);
+        setPreviewTotal(data.total || 0);
+      }
+    } finally {
+      setTesting(false);
+    }
+  }
+
+  async function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+
+    const res = await fetch("/api/category-rules", {
+      method: editingId ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...form, id: editingId || undefined }),
+    });
+    const data = await res.json();
+    if (!data.rule) {
+      alert(data.error || "Failed to save rule");
+      return;
+    }
+
+    setRules((prev) =>
+      (editingId
+        ? prev.map((r) => (r.id === data.rule.id ? data.rule : r))
+        : [...prev, data.rule]
+      ).sort((a, b) => a.priority - b.priority)
+    );
+    setMessage(editingId ? "Rule updated." : "Rule created.");
+    resetForm();
+  }
+
+  async function handleDelete(id: string) {
+    const confirmed = window.confirm(
+      "Delete this rule? Existing transactions keep their categories."
+    );
+    if (!confirmed) return;
+
+    await fetch(`/api/category-rules?id=${id}`, { method: "DELETE" });
+    setRules((prev) => prev.filter((r) => r.id !== id));
+    if (editingId === id) resetForm();
+  }
+
+  async function handleReapply(rule: CategoryRuleItem) {
+    const confirmed = window.confirm(
+      `Re-apply "${rule.pattern || "(any description)"}" to all matching transactions? Manually categorised transactions keep their category.`
+    );
+    if (!confirmed) return;
+
+    const res = await fetch("/api/category-rules/apply", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: rule.id }),
+    });
+    const data = await res.json();
+    if (data.error) {
+      setMessage(`Error: ${data.error}`);
+    } else {
+      setMessage(`Updated ${data.updated} transactions with "${rule.pattern || "(any description)"}".`);
+      setRules((prev) =>
+        prev.map((r) =>
+          r.id === rule.id ? { ...r, hitCount: r.hitCount + data.updated } : r
+        )
+      );
+    }
+  }
+
+  const visibleRules = rules.filter(
+    (r) =>
+      !filter ||
+      r.pattern.toLowerCase().includes(filter.toLowerCase()) ||
+      (r.merchantPattern || "").toLowerCase().includes(filter.toLowerCase()) ||
+      (r.categoryName || "").toLowerCase().includes(filter.toLowerCase())
+  );
+
+  return (
+    <Card title="Category Rules">
+      <div className="space-y-4">
+        <p className="text-xs text-text-muted">
+          Rules are learned when you re-categorise a transaction and are
+          applied to new imports before AI, lowest priority number first.
+          Patterns are case-insensitive and may be regular expressions.
+        </p>
+
+        {/* Create / edit form */}
+        <form onSubmit={handleSave} className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="text"
+              value={form.pattern}
+              onChange={(e) => update("pattern", e.target.value)}
+              placeholder="Description pattern, e.g. WOOLWORTHS"
+              className={`flex-1 min-w-[180px] font-mono ${inputClass}`}
+            />
+            <select
+              value={form.categoryId}
+              onChange={(e) => update("categoryId", e.target.value)}
+              className={inputClass}
+            >
+              <option value="">No category change</option>
+              {categories.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.icon} {c.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setShowAdvanced(!showAdvanced)}
+              className="text-xs text-text-muted hover:text-foreground"
+            >
+              {showAdvanced ? "Hide conditions" : "More conditions & actions"}
+            </button>
+          </div>
+
+          {showAdvanced && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 bg-background rounded-lg border border-surface-hover p-3">
+              <p className="col-span-full text-xs text-text-muted uppercase tracking-wider">
+                Only when
+              </p>
+              <select
+                value={form.direction}
+                onChange={(e) => update("direction", e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Money in or out</option>
+                <option value="debit">Money out</option>
+                <option value="credit">Money in</option>
+              </select>
+              <select
+                value={form.accountId}
+                onChange={(e) => update("accountId", e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Any account</option>
+                {accounts.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={form.merchantPattern}
+                onChange={(e) => update("merchantPattern", e.target.value)}
+                placeholder="Merchant pattern"
+                className={`font-mono ${inputClass}`}
+              />
+              <input
+                type="number"
+                value={form.priority}
+                onChange={(e) => update("priority", e.target.value)}
+                placeholder="Priority"
+                title="Lower numbers are checked first"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                step="0.01"
+                value={form.minAmount}
+                onChange={(e) => update("minAmount", e.target.value)}
+                placeholder="Min amount ($)"
+                className={`font-mono ${inputClass}`}
+              />
+              <input
+                type="number"
+                step="0.01"
+                value={form.maxAmount}
+                onChange={(e) => update("maxAmount", e.target.value)}
+                placeholder="Max amount ($)"
+                className={`font-mono ${inputClass}`}
+              />
+              <input
+                type="number"
+                min="1"
+                max="31"
+                value={form.dayOfMonthMin}
+                onChange={(e) => update("dayOfMonthMin", e.target.value)}
+                placeholder="From day of month"
+                className={inputClass}
+              />
+              <input
+                type="number"
+                min="1"
+                max="31"
+                value={form.dayOfMonthMax}
+                onChange={(e) => update("dayOfMonthMax", e.target.value)}
+                placeholder="To day of month"
+                className={inputClass}
+              />
+
+              <p className="col-span-full text-xs text-text-muted uppercase tracking-wider mt-2">
+                Also set
+              </p>
+              <input
+                type="text"
+                value={form.setCleanDescription}
+                onChange={(e) => update("setCleanDescription", e.target.value)}
+                placeholder="Clean description"
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={form.setNotes}
+                onChange={(e) => update("setNotes", e.target.value)}
+                placeholder="Notes"
+                className={inputClass}
+              />
+              <select
+                value={form.setExcluded}
+                onChange={(e) => update("setExcluded", e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Excluded: unchanged</option>
+                <option value="true">Exclude from budgets</option>
+                <option value="false">Include in budgets</option>
+              </select>
+              <select
+                value={form.setTransfer}
+                onChange={(e) => update("setTransfer", e.target.value)}
+                className={inputClass}
+              >
+                <option value="">Transfer: unchanged</option>
+                <option value="true">Mark as transfer</option>
+                <option value="false">Not a transfer</option>
+              </select>
+              {members.length > 0 && (
+                <select
+                  value={form.setMemberId}
+                  onChange={(e) => update("setMemberId", e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Spent by: unchanged</option>
+                  {members.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      Spent by {m.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={handleTest}
+              disabled={testing}
+              className="px-3 py-1.5 border border-surface-hover text-foreground rounded-lg text-sm hover:bg-surface-hover transition-colors disabled:opacity-50"
+            >
+              {testing ? "Testing..." : "Test this rule"}
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1.5 bg-accent text-white rounded-lg text-sm"
+            >
+              {editingId ? "Save" : "Add"}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="text-xs text-text-muted hover:text-foreground"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        {/* Pattern preview */}
+        {preview && (
+          <div className="bg-background rounded-lg border border-surface-hover p-3">
+            <p className="text-xs text-text-muted mb-2">
+              Matches {previewTotal} existing transaction{previewTotal === 1 ? "" : "s"}
+              {previewTotal > preview.length && ` (showing latest ${preview.length})`}
+            </p>
+            <div className="max-h-60 overflow-y-auto space-y-1">
+              {preview.map((tx) => (
+                <div key={tx.id} className="flex items-center gap-3 text-xs">
+                  <span className="text-text-muted w-20 shrink-0">
+                    {new Date(tx.date).toLocaleDateString("en-AU")}
+                  </span>
+                  <span className="flex-1 truncate text-foreground">{tx.description}</span>
+                  <span className="text-text-muted truncate w-28">
+                    {tx.categoryName || "Uncategorised"}
+                  </span>
+                  <span
+                    className={`font-mono w-20 text-right ${
+                      tx.direction === "credit" ? "text-on-track" : "text-foreground"
+                    }`}
+                  >
+                    ${Math.abs(tx.amount).toFixed(2)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {message && (
+          <p
+            className={`text-sm ${
+              message.startsWith("Error") ? "text-over-budget" : "text-on-track"
+            }`}
+          >
+            {message}
+          </p>
+        )}
+
+        {rules.length > 10 && (
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter rules..."
+            className="w-full bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground"
+          />
+        )}
+
+        {/* Rule list */}
+        {visibleRules.length === 0 ? (
+          <p className="text-sm text-text-muted">No rules yet.</p>
+        ) : (
+          <div className="space-y-1">
+            {visibleRules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-3 py-2 px-2 rounded-lg hover:bg-surface-hover/50 transition-colors"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-text-muted font-mono">#{rule.priority}</span>
+                    <span className="text-sm font-mono text-foreground truncate">
+                      {rule.pattern || "(any description)"}
+                    </span>
+                    {rule.categoryId && (
+                      <>
+                        <span className="text-text-muted">→</span>
+                        <span className="text-sm text-foreground truncate">
+                          {rule.categoryIcon} {rule.categoryName || "Deleted category"}
+                        </span>
+                      </>
+                    )}
+                  </div>
+                  {describeRule(rule) && (
+                    <p className="text-xs text-text-muted truncate">{describeRule(rule)}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="text-xs text-text-muted">
+                    {rule.hitCount} hit{rule.hitCount === 1 ? "" : "s"}
+                  </span>
+                  <button
+                    onClick={() => startEdit(rule)}
+                    className="text-xs text-text-muted hover:text-foreground transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleReapply(rule)}
+                    className="text-xs text-text-muted hover:text-accent transition-colors"
+                  >
+                    Re-apply
+                  </button>
+                  <button
+                    onClick={() => handleDelete(rule.id)}
+                    className="text-xs text-text-muted hover:text-over-budget transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
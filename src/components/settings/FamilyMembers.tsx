@@ -0,0 +1,238 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Card from "@/components/shared/Card";
+import type { FamilyMember } from "@/types";
+
+interface FamilyMembersProps {
+  currentUserId: string;
+}
+
+const ROLE_OPTIONS = [
+  { value: "admin", label: "Admin" },
+  { value: "member", label: "Member" },
+  { value: "viewer", label: "Viewer" },
+];
+
+const inputClass =
+  "bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground";
+
+export default function FamilyMembers({ currentUserId }: FamilyMembersProps) {
+  const [members, setMembers] = useState<FamilyMember[]>([]);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState("member");
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/users")
+      .then((res) => res.json())
+      .then((data) => setMembers(data.users || []))
+      .catch((err) => console.error("Members fetch error:", err));
+  }, []);
+
+  async function handleInvite(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim() || !email.trim()) return;
+
+    const res = await fetch("/api/users", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, email, role }),
+    });
+    const data = await res.json();
+    if (data.error) {
+      setMessage(`Error: ${data.error}`);
+      return;
+    }
+
+    setMembers((prev) => [...prev, data.user]);
+    setName("");
+    setEmail("");
+    setRole("member");
+    setMessage(
+      `Added ${data.user.name}. Their temporary password is ${data.temporaryPassword} — pass it on, it won't be shown again.`
+    );
+  }
+
+  async function handleRoleChange(member: FamilyMember, newRole: string) {
+    const res = await fetch("/api/users", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: member.id, role: newRole }),
+    });
+    const data = await res.json();
+    if (data.error) {
+      setMessage(`Error: ${data.error}`);
+      return;
+    }
+    setMembers((prev) => prev.map((m) => (m.id === member.id ? data.user : m)));
+    setMessage(null);
+  }
+
+  async function handleResetPassword(member: FamilyMember) {
+    const confirmed = window.confirm(
+      `Reset ${member.name}'s password? Their current password will stop working.`
+    );
+    if (!confirmed) return;
+
+    const res = await fetch("/api/users", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: member.id, resetPassword: true }),
+    });
+    const data = await res.json();
+    if (data.error) {
+      setMessage(`Error: ${data.error}`);
+    } else {
+      setMessage(
+        `${member.name}'s new temporary password is ${data.temporaryPassword} — pass it on, it won't be shown again.`
+      );
+    }
+  }
+
+  async function handleResetTwoFactor(member: FamilyMember) {
+    const confirmed = window.confirm(
+      `Turn off two-factor sign-in for ${member.name}? Only do this if they've lost their authenticator and recovery codes.`
+    );
+    if (!confirmed) return;
+
+    const res = await fetch("/api/users", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ id: member.id, resetTwoFactor: true }),
+    });
+    const data = await res.json();
+    if (data.error) {
+      setMessage(`Error: ${data.error}`);
+    } else {
+      setMessage(`Two-factor sign-in is off for ${member.name}.`);
+    }
+  }
+
+  async function handleRemove(member: FamilyMember) {
+    const confirmed = window.confirm(
+      `Remove ${member.name}? They won't be able to sign in. Their transactions stay but become shared, and their allowances are removed.`
+    );
+    if (!confirmed) return;
+
+    const res = await fetch(`/api/users?id=${member.id}`, { method: "DELETE" });
+    const data = await res.json();
+    if (data.error) {
+      setMessage(`Error: ${data.error}`);
+      return;
+    }
+    setMembers((prev) => prev.filter((m) => m.id !== member.id));
+    setMessage(null);
+  }
+
+  return (
+    <Card title="Family Members">
+      <div className="space-y-4">
+        <p className="text-xs text-text-muted">
+          Admins manage accounts, bank connections and family members.
+          Members can also import, categorise and set budgets. Viewers can
+          only look.
+        </p>
+
+        <form onSubmit={handleInvite} className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name"
+            className={`flex-1 min-w-[140px] ${inputClass}`}
+          />
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email"
+            className={`flex-1 min-w-[180px] ${inputClass}`}
+          />
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value)}
+            className={inputClass}
+          >
+            {ROLE_OPTIONS.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="px-3 py-1.5 bg-accent text-white rounded-lg text-sm"
+          >
+            Add
+          </button>
+        </form>
+
+        {message && (
+          <p
+            className={`text-sm ${
+              message.startsWith("Error") ? "text-over-budget" : "text-on-track"
+            }`}
+          >
+            {message}
+          </p>
+        )}
+
+        <div className="space-y-1">
+          {members.map((member) => (
+            <div
+              key={member.id}
+              className="flex items-center justify-between gap-3 py-2 px-2 rounded-lg hover:bg-surface-hover/50 transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-foreground truncate">
+                  {member.name}
+                  {member.id === currentUserId && (
+                    <span className="text-text-muted"> (you)</span>
+                  )}
+                </p>
+                <p className="text-xs text-text-muted truncate">{member.email}</p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <select
+                  value={member.role}
+                  onChange={(e) => handleRoleChange(member, e.target.value)}
+                  className={inputClass}
+                >
+                  {ROLE_OPTIONS.map((r) => (
+                    <option key={r.value} value={r.value}>
+                      {r.label}
+                    </option>
+                  ))}
+                </select>
+                {member.id !== currentUserId && (
+                  <>
+                    <button
+                      onClick={() => handleResetPassword(member)}
+                      className="text-xs text-text-muted hover:text-foreground"
+                    >
+                      Reset password
+                    </button>
+                    <button
+                      onClick={() => handleResetTwoFactor(member)}
+                      className="text-xs text-text-muted hover:text-foreground"
+                    >
+                      Reset 2FA
+                    </button>
+                    <button
+                      onClick={() => handleRemove(member)}
+                      className="text-xs text-over-budget hover:underline"
+                    >
+                      Remove
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+}
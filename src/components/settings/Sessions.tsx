@@ -0,0 +1,145 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import Card from "@/components/shared/Card";
+import type { SessionItem } from "@/types";
+
+// A rough "Browser on OS" from a user agent string
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Firefox\//.test(userAgent)
+      ? "Firefox"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Browser";
+  const os = /iPhone|iPad/.test(userAgent)
+    ? "iOS"
+    : /Android/.test(userAgent)
+      ? "Android"
+      : /Mac OS X/.test(userAgent)
+        ? "macOS"
+        : /Windows/.test(userAgent)
+          ? "Windows"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null;
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-AU", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function Sessions() {
+  const router = useRouter();
+  const [sessions, setSessions] = useState<SessionItem[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/sessions")
+      .then((res) => res.json())
+      .then((data) => setSessions(data.sessions || []))
+      .catch((err) => console.error("Sessions fetch error:", err));
+  }, []);
+
+  function signedOut() {
+    router.push("/login");
+    router.refresh();
+  }
+
+  async function handleRevoke(session: SessionItem) {
+    const res = await fetch(`/api/sessions?id=${session.id}`, { method: "DELETE" });
+    const data = await res.json();
+    if (data.error) {
+      setMessage(`Error: ${data.error}`);
+      return;
+    }
+    if (session.current) {
+      signedOut();
+      return;
+    }
+    setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    setMessage(null);
+  }
+
+  async function handleRevokeAll() {
+    const confirmed = window.confirm(
+      "Sign out of every device, including this one?"
+    );
+    if (!confirmed) return;
+
+    const res = await fetch("/api/sessions?all=true", { method: "DELETE" });
+    const data = await res.json();
+    if (data.error) {
+      setMessage(`Error: ${data.error}`);
+      return;
+    }
+    signedOut();
+  }
+
+  return (
+    <Card
+      title="Signed-in Devices"
+      action={
+        sessions.length > 0 && (
+          <button
+            onClick={handleRevokeAll}
+            className="text-xs text-over-budget hover:underline"
+          >
+            Sign out all devices
+          </button>
+        )
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-xs text-text-muted">
+          Sign out anywhere you don&apos;t recognise. Resetting a password
+          also signs that person out everywhere.
+        </p>
+
+        {message && <p className="text-sm text-over-budget">{message}</p>}
+
+        <div className="space-y-1">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className="flex items-center justify-between gap-3 py-2 px-2 rounded-lg hover:bg-surface-hover/50 transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-foreground truncate">
+                  {describeDevice(session.userAgent)}
+                  {session.current && (
+                    <span className="text-on-track"> (this device)</span>
+                  )}
+                </p>
+                <p className="text-xs text-text-muted truncate">
+                  {session.ip || "Unknown IP"} · last active{" "}
+                  {formatTime(session.lastSeenAt)} · signed in{" "}
+                  {formatTime(session.createdAt)}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRevoke(session)}
+                className="text-xs text-text-muted hover:text-foreground shrink-0"
+              >
+                Sign out
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Card from "@/components/shared/Card";
+import type { TwoFactorSetup, TwoFactorStatus } from "@/types";
+
+const inputClass =
+  "bg-background border border-surface-hover rounded-lg px-3 py-1.5 text-sm text-foreground";
+
+// Easier to type from the screen in groups of four
+const groupSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(" ") ?? secret;
+
+export default function TwoFactor() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+
+  function loadStatus() {
+    fetch("/api/two-factor")
+      .then((res) => res.json())
+      .then((data) => setStatus(data.error ? null : data))
+      .catch((err) => console.error("Two-factor fetch error:", err));
+  }
+
+  useEffect(loadStatus, []);
+
+  async function post(body: Record<string, string>) {
+    const res = await fetch("/api/two-factor", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (data.error) setMessage(`Error: ${data.error}`);
+    return data.error ? null : data;
+  }
+
+  async function handleSetup(e: React.FormEvent) {
+    e.preventDefault();
+    const data = await post({ action: "setup", password });
+    if (!data) return;
+    setSetup(data);
+    setPassword("");
+    setMessage(null);
+  }
+
+  async function handleEnable(e: React.FormEvent) {
+    e.preventDefault();
+    const data = await post({ action: "enable", code });
+    if (!data) return;
+    setSetup(null);
+    setCode("");
+    setRecoveryCodes(data.recoveryCodes);
+    setMessage("Two-factor sign-in is on. Other devices have been signed out.");
+    loadStatus();
+  }
+
+  async function handleNewRecoveryCodes() {
+    const data = await post({ action: "recovery-codes", code });
+    if (!data) return;
+    setCode("");
+    setRecoveryCodes(data.recoveryCodes);
+    setMessage("Your old recovery codes no longer work.");
+    loadStatus();
+  }
+
+  async function handleDisable() {
+    const confirmed = window.confirm(
+      "Turn off two-factor sign-in? Your password alone will be enough to sign in."
+    );
+    if (!confirmed) return;
+
+    const data = await post({ action: "disable", password, code });
+    if (!data) return;
+    setPassword("");
+    setCode("");
+    setRecoveryCodes(null);
+    setMessage("Two-factor sign-in is off.");
+    loadStatus();
+  }
+
+  if (!status) return null;
+
+  return (
+    <Card title="Two-Factor Sign-in">
+      <div className="space-y-4">
+        <p className="text-xs text-text-muted">
+          Ask for a code from an authenticator app (Google Authenticator,
+          1Password, Authy...) as well as your password. The sync and import
+          scripts can&apos;t answer a code, so give them their own service
+          account (SERVICE_ACCOUNT_EMAIL) and leave 2FA off there.
+        </p>
+
+        {message && (
+          <p
+            className={`text-sm ${
+              message.startsWith("Error") ? "text-over-budget" : "text-on-track"
+            }`}
+          >
+            {message}
+          </p>
+        )}
+
+        {recoveryCodes && (
+          <div className="bg-background rounded-lg p-3 space-y-2">
+            <p className="text-xs text-text-muted">
+              Recovery codes — each signs you in once if you lose your
+              authenticator. Save them somewhere safe; they won&apos;t be shown
+              again.
+            </p>
+            <div className="grid grid-cols-2 gap-1 font-mono text-sm text-foreground">
+              {recoveryCodes.map((c) => (
+                <span key={c}>{c}</span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!status.enabled && !setup && (
+          <form onSubmit={handleSetup} className="flex flex-wrap items-center gap-2">
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Current password"
+              required
+              className={`flex-1 min-w-[180px] ${inputClass}`}
+            />
+            <button
+              type="submit"
+              className="px-3 py-1.5 bg-accent text-white rounded-lg text-sm"
+            >
+              Set up
+            </button>
+          </form>
+        )}
+
+        {setup && (
+          <form onSubmit={handleEnable} className="space-y-3">
+            <p className="text-sm text-foreground">
+              Add this account to your authenticator app by entering the key
+              below, or{" "}
+              <a href={setup.uri} className="text-accent-light hover:underline">
+                open it in the app
+              </a>{" "}
+              on this device.
+            </p>
+            <p className="font-mono text-sm text-foreground bg-background rounded-lg px-3 py-2 break-all">
+              {groupSecret(setup.secret)}
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Code from the app"
+                required
+                className={`flex-1 min-w-[140px] ${inputClass}`}
+              />
+              <button
+                type="submit"
+                className="px-3 py-1.5 bg-accent text-white rounded-lg text-sm"
+              >
+                Turn on
+              </button>
+              <button
+                type="button"
+                onClick={() => setSetup(null)}
+                className="text-xs text-text-muted hover:text-foreground"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {status.enabled && (
+          <div className="space-y-3">
+            <p className="text-sm text-foreground">
+              On.{" "}
+              <span className="text-text-muted">
+                {status.recoveryCodesRemaining} recovery code
+                {status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+              </span>
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="Code or recovery code"
+                className={`flex-1 min-w-[160px] ${inputClass}`}
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password (to turn off)"
+                className={`flex-1 min-w-[160px] ${inputClass}`}
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleNewRecoveryCodes}
+                disabled={!code}
+                className="text-xs text-text-muted hover:text-foreground disabled:opacity-50"
+              >
+                New recovery codes
+              </button>
+              <button
+                onClick={handleDisable}
+                disabled={!code || !password}
+                className="text-xs text-over-budget hover:underline disabled:opacity-50"
+              >
+                Turn off
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import type { JobItem } from "@/types";
+
+const FINISHED: JobItem["status"][] = ["completed", "failed", "cancelled"];
+
+// Labels for the counts jobs report, in display order. AI batches are shown
+// as "n of m" rather than on their own.
+const STAT_LABELS: [string, string][] = [
+  ["rows", "rows read"],
+  ["skipped", "duplicates skipped"],
+  ["flagged", "flagged for review"],
+  ["rulesApplied", "rules applied"],
+  ["synced", "new from bank"],
+  ["merged", "matched to imports"],
+  ["aiCategorised", "AI categorised"],
+  ["aiTransfers", "transfers detected"],
+  ["linkedTransfers", "transfers linked"],
+];
+
+// How often to poll once the event stream has dropped
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Poll a job until it finishes. Rejects if the job can't be fetched
+ * (signed out, deleted) or the server stops answering.
+ */
+async function pollJob(
+  id: string,
+  onUpdate?: (job: JobItem) => void
+): Promise<JobItem> {
+  for (;;) {
+    const res = await fetch(`/api/jobs?id=${id}`);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data.job) {
+      throw new Error(data.error || `Lost track of the job (HTTP ${res.status})`);
+    }
+
+    const job: JobItem = data.job;
+    onUpdate?.(job);
+    if (FINISHED.includes(job.status)) return job;
+    await new Promise((r) => setTimeout(r, POLL_INTERVAL_MS));
+  }
+}
+
+/**
+ * Follow a background job over server-sent events until it finishes,
+ * reporting each update. Resolves with the finished job. If the stream
+ * fails (a server restart, a revoked session), falls back to polling.
+ */
+export function watchJob(
+  id: string,
+  onUpdate?: (job: JobItem) => void
+): Promise<JobItem> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/stream?id=${id}`);
+    source.addEventListener("job", (e) => {
+      const job: JobItem = JSON.parse((e as MessageEvent).data);
+      onUpdate?.(job);
+      if (FINISHED.includes(job.status)) {
+        source.close();
+        resolve(job);
+      }
+    });
+    source.addEventListener("missing", (e) => {
+      source.close();
+      reject(new Error(JSON.parse((e as MessageEvent).data).error));
+    });
+    source.onerror = () => {
+      source.close();
+      pollJob(id, onUpdate).then(resolve, reject);
+    };
+  });
+}
+
+/**
+ * Follow every job of the given types, including ones started elsewhere
+ * (the CSV watcher, another tab). If the stream drops, jobs already seen
+ * are polled to the finish and the stream reconnects for new ones.
+ * Returns a function that stops listening.
+ */
+export function watchJobs(
+  types: string[],
+  onUpdate: (job: JobItem) => void
+): () => void {
+  let source: EventSource | null = null;
+  let reconnect: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+  // Jobs seen but not yet finished, and those being polled
+  const unfinished = new Set<string>();
+  const polling = new Set<string>();
+
+  const report = (job: JobItem) => {
+    if (stopped) return;
+    if (FINISHED.includes(job.status)) unfinished.delete(job.id);
+    else unfinished.add(job.id);
+    onUpdate(job);
+  };
+
+  const connect = () => {
+    source = new EventSource(`/api/jobs/stream?type=${types.join(",")}`);
+    source.addEventListener("job", (e) => {
+      report(JSON.parse((e as MessageEvent).data));
+    });
+    source.onerror = () => {
+      source?.close();
+      if (stopped) return;
+      for (const id of unfinished) {
+        if (polling.has(id)) continue;
+        polling.add(id);
+        pollJob(id, report)
+          .catch((err) => console.error("Job poll error:", err))
+          .finally(() => polling.delete(id));
+      }
+      reconnect = setTimeout(connect, POLL_INTERVAL_MS * 5);
+    };
+  };
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(reconnect);
+    source?.close();
+  };
+}
+
+export function isJobFinished(job: JobItem): boolean {
+  return FINISHED.includes(job.status);
+}
+
+export async function cancelJob(id: string): Promise<void> {
+  await fetch("/api/jobs/cancel", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ id }),
+  });
+}
+
+interface JobProgressProps {
+  job: JobItem;
+}
+
+export default function JobProgress({ job }: JobProgressProps) {
+  const running = !isJobFinished(job);
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between gap-3 text-xs text-text-muted">
+        <span className="truncate">
+          {job.message || (job.status === "queued" ? "Waiting to start..." : "Working...")}
+        </span>
+        <span className="flex items-center gap-3 shrink-0">
+          {job.progress}%
+          {running && (
+            <button
+              onClick={() => cancelJob(job.id)}
+              className="text-over-budget hover:underline"
+            >
+              Cancel
+            </button>
+          )}
+        </span>
+      </div>
+      <div className="h-1.5 bg-background rounded-full overflow-hidden">
+        <div
+          className="h-full bg-accent transition-all"
+          style={{ width: `${job.progress}%` }}
+        />
+      </div>
+      {job.stats && (
+        <p className="text-xs text-text-muted">
+          {STAT_LABELS.filter(([key]) => job.stats?.[key] !== undefined)
+            .map(([key, label]) => `${job.stats?.[key]} ${label}`)
+            .concat(
+              job.stats.aiBatches
+                ? [`AI batch ${job.stats.aiBatch} of ${job.stats.aiBatches}`]
+                : []
+            )
+            .join(" · ")}
+        </p>
+      )}
+    </div>
+  );
+}
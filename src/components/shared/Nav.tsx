@@ -6,6 +6,7 @@ import { usePathname, useRouter } from "next/navigation";
 const navItems = [
   { href: "/", label: "Dashboard", icon: "📊" },
   { href: "/transactions", label: "Transactions", icon: "💳" },
+  { href: "/goals", label: "Goals", icon: "🎯" },
   { href: "/settings", label: "Settings", icon: "⚙️" },
 ];
 
@@ -0,0 +1,114 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Card from "@/components/shared/Card";
+import type { ImportBatchItem } from "@/types";
+
+interface ImportHistoryProps {
+  // Bump to reload after a new import
+  refreshKey: number;
+  onRolledBack: (message: string) => void;
+}
+
+export default function ImportHistory({ refreshKey, onRolledBack }: ImportHistoryProps) {
+  const [batches, setBatches] = useState<ImportBatchItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const res = await fetch("/api/imports?limit=20");
+      const data = await res.json();
+      setBatches(data.batches || []);
+    } catch {
+      console.error("Failed to fetch import history");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches, refreshKey]);
+
+  async function handleRollback(batch: ImportBatchItem) {
+    if (
+      !window.confirm(
+        `Roll back ${batch.fileName}? This deletes the ${batch.imported} transactions it imported into ${batch.accountName || "the account"}.`
+      )
+    ) {
+      return;
+    }
+
+    setRollingBack(batch.id);
+    try {
+      const res = await fetch("/api/imports/rollback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: batch.id }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        onRolledBack(
+          `Rolled back ${batch.fileName}: removed ${data.removed} transactions` +
+            (data.unlinked ? `, unlinked ${data.unlinked} transfers` : "") +
+            (data.balanceRestored ? ", restored the account balance" : "") +
+            "."
+        );
+        fetchBatches();
+      } else {
+        alert(data.error);
+      }
+    } finally {
+      setRollingBack(null);
+    }
+  }
+
+  return (
+    <Card title="Import History">
+      {loading ? (
+        <p className="text-sm text-text-muted">Loading...</p>
+      ) : batches.length === 0 ? (
+        <p className="text-sm text-text-muted">No imports yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {batches.map((b) => (
+            <div
+              key={b.id}
+              className={`flex items-center gap-3 text-sm ${b.rolledBackAt ? "opacity-50" : ""}`}
+            >
+              <span className="text-xs text-text-muted w-24 shrink-0">
+                {new Date(b.createdAt).toLocaleDateString("en-AU", {
+                  day: "2-digit",
+                  month: "short",
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}
+              </span>
+              <div className="flex-1 min-w-0">
+                <p className="text-foreground truncate">{b.fileName}</p>
+                <p className="text-xs text-text-muted">
+                  {b.source} into {b.accountName || "deleted account"}
+                  {b.userName && ` by ${b.userName}`} · {b.imported} imported, {b.skipped}{" "}
+                  skipped
+                  {b.linkedTransfers > 0 && `, ${b.linkedTransfers} transfers linked`}
+                </p>
+              </div>
+              {b.rolledBackAt ? (
+                <span className="text-xs text-text-muted shrink-0">Rolled back</span>
+              ) : (
+                <button
+                  onClick={() => handleRollback(b)}
+                  disabled={rollingBack === b.id}
+                  className="text-xs text-over-budget hover:underline shrink-0 disabled:opacity-50"
+                >
+                  {rollingBack === b.id ? "Rolling back..." : "Roll back"}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,11 +1,16 @@
 "use client";
 
+import JobProgress from "@/components/shared/JobProgress";
+import type { JobItem } from "@/types";
+
 interface ImportStatusProps {
   status: "idle" | "uploading" | "success" | "error";
   message?: string;
+  /** A running import or sync job to show live progress for */
+  job?: JobItem;
 }
 
-export default function ImportStatus({ status, message }: ImportStatusProps) {
+export default function ImportStatus({ status, message, job }: ImportStatusProps) {
   if (status === "idle") return null;
 
   const styles = {
@@ -16,7 +21,15 @@ export default function ImportStatus({ status, message }: ImportStatusProps) {
 
   return (
     <div className={`rounded-lg border px-4 py-2 text-sm ${styles[status]}`}>
-      {status === "uploading" && "Importing..."}
+      {status === "uploading" &&
+        (job ? (
+          <div className="space-y-2">
+            <p>{job.type === "sync" ? "Syncing bank connections" : "Importing"}</p>
+            <JobProgress job={job} />
+          </div>
+        ) : (
+          "Importing..."
+        ))}
       {status === "success" && (message || "Import complete")}
       {status === "error" && (message || "Import failed")}
     </div>
@@ -0,0 +1,340 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Card from "@/components/shared/Card";
+import type {
+  ImportColumn,
+  ImportDateFormat,
+  ImportMapping,
+  ImportPreview,
+  ImportProfileInfo,
+  ImportSign,
+} from "@/types";
+
+interface ImportWizardProps {
+  file: File;
+  accountId: string;
+  profiles: ImportProfileInfo[];
+  onCancel: () => void;
+  /** Called with the background job id once the file is accepted */
+  onQueued: (jobId: string) => void;
+}
+
+const DATE_FORMATS: ImportDateFormat[] = ["DD/MM/YYYY", "YYYY-MM-DD", "DD MMM YY", "DD MMM YYYY"];
+
+const SIGNS: { value: ImportSign; label: string }[] = [
+  { value: "signed", label: "One amount column, negative is money out" },
+  { value: "inverted", label: "One amount column, positive is money out" },
+  { value: "split", label: "Separate credit and debit columns" },
+];
+
+const FIELD_LABELS: Record<ImportColumn, string> = {
+  date: "Date",
+  description: "Description",
+  amount: "Amount",
+  credit: "Credit",
+  debit: "Debit",
+  balance: "Balance",
+};
+
+const EMPTY_MAPPING: ImportMapping = {
+  hasHeader: true,
+  columns: {},
+  dateFormat: "DD/MM/YYYY",
+  sign: "signed",
+};
+
+export default function ImportWizard({
+  file,
+  accountId,
+  profiles,
+  onCancel,
+  onQueued,
+}: ImportWizardProps) {
+  const [profile, setProfile] = useState("");
+  const [mapping, setMapping] = useState<ImportMapping>(EMPTY_MAPPING);
+  // Once the user edits the mapping it's sent instead of a bank profile
+  const [customMapping, setCustomMapping] = useState(false);
+  const [saveTemplate, setSaveTemplate] = useState(true);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  function buildForm() {
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("accountId", accountId);
+    if (customMapping) {
+      formData.append("mapping", JSON.stringify(mapping));
+    } else if (profile) {
+      formData.append("profile", profile);
+    }
+    return formData;
+  }
+
+  const mappingKey = customMapping ? JSON.stringify(mapping) : "";
+
+  useEffect(() => {
+    let cancelled = false;
+    async function fetchPreview() {
+      setLoading(true);
+      try {
+        const res = await fetch("/api/transactions/import/preview", {
+          method: "POST",
+          body: buildForm(),
+        });
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(data.error);
+          return;
+        }
+        setError("");
+        setPreview(data);
+        if (!customMapping) {
+          setMapping(data.mapping || EMPTY_MAPPING);
+        }
+      } catch {
+        if (!cancelled) setError("Failed to read file");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    fetchPreview();
+    return () => {
+      cancelled = true;
+    };
+    // Re-read whenever the profile or a custom mapping changes, but not when
+    // the mapping is just being filled in from the server's own answer
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file, accountId, profile, customMapping, mappingKey]);
+
+  function updateMapping(change: Partial<ImportMapping>) {
+    setCustomMapping(true);
+    setMapping((prev) => ({ ...prev, ...change }));
+  }
+
+  function setColumn(field: ImportColumn, value: string) {
+    const columns = { ...mapping.columns };
+    if (value === "") delete columns[field];
+    else columns[field] = Number(value);
+    updateMapping({ columns });
+  }
+
+  async function handleCommit() {
+    setImporting(true);
+    const formData = buildForm();
+    if (customMapping && saveTemplate) formData.append("saveTemplate", "true");
+
+    try {
+      const res = await fetch("/api/transactions/import", {
+        method: "POST",
+        body: formData,
+      });
+      const data = await res.json();
+      if (res.ok) {
+        onQueued(data.jobId);
+      } else {
+        setError(data.error);
+      }
+    } catch {
+      setError("Import failed");
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  const isCsv = !preview || preview.format === "csv";
+  const fields: ImportColumn[] =
+    mapping.sign === "split"
+      ? ["date", "description", "credit", "debit", "balance"]
+      : ["date", "description", "amount", "balance"];
+  const selectClass =
+    "bg-background border border-surface-hover rounded-lg px-2 py-1.5 text-sm text-foreground";
+
+  return (
+    <Card
+      title={`Import ${file.name}`}
+      action={
+        <span className="text-xs text-text-muted">
+          {loading
+            ? "Reading..."
+            : preview?.source
+              ? `Read as ${customMapping ? "custom mapping" : preview.source}`
+              : "Format not recognised"}
+        </span>
+      }
+    >
+      {isCsv && (
+        <div className="space-y-3 mb-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={customMapping ? "" : profile}
+              onChange={(e) => {
+                setCustomMapping(false);
+                setProfile(e.target.value);
+              }}
+              className={selectClass}
+            >
+              <option value="">
+                {customMapping ? "Custom mapping" : "Auto-detect bank"}
+              </option>
+              {profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-text-muted">
+              <input
+                type="checkbox"
+                checked={mapping.hasHeader}
+                onChange={(e) => updateMapping({ hasHeader: e.target.checked })}
+                className="rounded border-surface-hover bg-background"
+              />
+              First row is a header
+            </label>
+            <select
+              value={mapping.dateFormat}
+              onChange={(e) =>
+                updateMapping({ dateFormat: e.target.value as ImportDateFormat })
+              }
+              className={selectClass}
+            >
+              {DATE_FORMATS.map((f) => (
+                <option key={f} value={f}>
+                  {f}
+                </option>
+              ))}
+            </select>
+            <select
+              value={mapping.sign}
+              onChange={(e) => updateMapping({ sign: e.target.value as ImportSign })}
+              className={selectClass}
+            >
+              {SIGNS.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            {fields.map((field) => (
+              <label key={field} className="flex items-center gap-2 text-sm text-text-muted">
+                {FIELD_LABELS[field]}
+                <select
+                  value={mapping.columns[field] ?? ""}
+                  onChange={(e) => setColumn(field, e.target.value)}
+                  className={selectClass}
+                >
+                  <option value="">{field === "balance" ? "None" : "Choose..."}</option>
+                  {preview?.columns.map((name, i) => (
+                    <option key={i} value={i}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {preview && preview.sample.length > 0 && (
+            <div className="overflow-x-auto border border-surface-hover rounded-lg">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-text-muted">
+                    {preview.columns.map((name, i) => (
+                      <th key={i} className="text-left font-medium px-2 py-1.5 whitespace-nowrap">
+                        {name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.sample.map((row, i) => (
+                    <tr key={i} className="border-t border-surface-hover">
+                      {row.map((cell, j) => (
+                        <td key={j} className="px-2 py-1 whitespace-nowrap text-foreground">
+                          {cell}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <p className="text-xs text-text-muted uppercase tracking-wider">
+          Parsed result
+          {preview && preview.totalRows > 0 &&
+            ` — ${preview.totalRows - preview.invalid} of ${preview.totalRows} rows readable`}
+        </p>
+        {preview && preview.parsed.length > 0 ? (
+          preview.parsed.map((row, i) => (
+            <div key={i} className="flex items-center gap-3 text-sm">
+              <span className="text-xs text-text-muted w-20 shrink-0">
+                {new Date(row.date).toLocaleDateString("en-AU", {
+                  day: "2-digit",
+                  month: "short",
+                  year: "2-digit",
+                })}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-foreground">
+                {row.description}
+              </span>
+              <span
+                className={`shrink-0 font-medium ${
+                  row.direction === "debit" ? "text-over-budget" : "text-on-track"
+                }`}
+              >
+                {row.direction === "debit" ? "-" : "+"}${row.amount.toFixed(2)}
+              </span>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-text-muted">
+            {loading ? "Reading..." : "No rows can be read with this mapping yet."}
+          </p>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-over-budget mt-3">{error}</p>}
+
+      <div className="flex items-center justify-end gap-3 mt-4">
+        {isCsv && customMapping && (
+          <label className="flex items-center gap-2 text-sm text-text-muted mr-auto">
+            <input
+              type="checkbox"
+              checked={saveTemplate}
+              onChange={(e) => setSaveTemplate(e.target.checked)}
+              className="rounded border-surface-hover bg-background"
+            />
+            Save this mapping for this account
+          </label>
+        )}
+        <button
+          onClick={onCancel}
+          className="px-3 py-1.5 bg-surface border border-surface-hover rounded-lg text-sm"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleCommit}
+          disabled={importing || loading || !preview?.parsed.length}
+          className="px-3 py-1.5 bg-accent hover:bg-accent-light text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {importing
+            ? "Importing..."
+            : `Import ${preview ? preview.totalRows - preview.invalid : 0} transactions`}
+        </button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { AuditChange, AuditEntryItem } from "@/types";
+
+interface TransactionHistoryProps {
+  transactionId: string;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  date: "Date",
+  description: "Description",
+  amount: "Amount",
+  categoryId: "Category",
+  memberId: "Spent by",
+  notes: "Notes",
+  isExcluded: "Excluded",
+  isTransfer: "Transfer",
+  linkedTransactionId: "Transfer link",
+  duplicateOfId: "Possible duplicate",
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  update: "edited",
+  delete: "deleted",
+  "bulk-categorise": "bulk categorised",
+  "ai-categorise": "AI categorised",
+  "category-deleted": "deleted its category",
+  "rule-applied": "re-applied a rule to it",
+  "account-owner": "changed its account's owner",
+  "import-rollback": "rolled back an import",
+};
+
+function formatValue(change: AuditChange, side: "from" | "to"): string {
+  const value = change[side];
+  const label = side === "from" ? change.fromLabel : change.toLabel;
+  if (label) return label;
+  if (value === null || value === "") return "none";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return String(value);
+}
+
+export default function TransactionHistory({ transactionId }: TransactionHistoryProps) {
+  const [entries, setEntries] = useState<AuditEntryItem[] | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/audit?entityType=transaction&entityId=${transactionId}`)
+      .then((res) => res.json())
+      .then((data) => setEntries(data.data || []))
+      .catch((err) => {
+        console.error("History fetch error:", err);
+        setEntries([]);
+      });
+  }, [transactionId]);
+
+  return (
+    <div className="px-4 py-2 pl-[5.5rem] bg-background/50 border-b border-surface-hover text-xs">
+      {entries === null ? (
+        <p className="text-text-muted">Loading history...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-text-muted">No changes recorded.</p>
+      ) : (
+        <ul className="space-y-1">
+          {entries.map((entry) => (
+            <li key={entry.id} className="text-text-muted">
+              <span className="text-foreground">{entry.userName || "Someone"}</span>{" "}
+              {ACTION_LABELS[entry.action] || entry.action}{" "}
+              {new Date(entry.createdAt).toLocaleString("en-AU", {
+                day: "2-digit",
+                month: "short",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+              {Object.entries(entry.changes).map(([field, change]) => (
+                <span key={field} className="block pl-3">
+                  {FIELD_LABELS[field] || field}: {formatValue(change, "from")} →{" "}
+                  <span className="text-foreground">{formatValue(change, "to")}</span>
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
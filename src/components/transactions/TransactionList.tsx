@@ -1,21 +1,27 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import type { TransactionItem, CategoryItem } from "@/types";
+import type { TransactionItem, CategoryItem, FamilyMember } from "@/types";
 import TransactionRow from "./TransactionRow";
 
 interface TransactionListProps {
   transactions: TransactionItem[];
   categories: CategoryItem[];
+  members: FamilyMember[];
   onCategoryChange: (txId: string, categoryId: string) => void;
+  onMemberChange: (txId: string, memberId: string | null) => void;
   onBulkCategorise: (txIds: string[], categoryId: string) => void;
+  onResolveDuplicate: (txId: string, keep: boolean) => void;
 }
 
 export default function TransactionList({
   transactions,
   categories,
+  members,
   onCategoryChange,
+  onMemberChange,
   onBulkCategorise,
+  onResolveDuplicate,
 }: TransactionListProps) {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [bulkCategoryId, setBulkCategoryId] = useState<string>("");
@@ -103,6 +109,7 @@ export default function TransactionList({
         <span className="w-14">Date</span>
         <span className="flex-1">Description</span>
         <span className="w-28">Category</span>
+        {members.length > 0 && <span className="w-20">Who</span>}
         <span className="w-24 text-right">Account</span>
         <span className="w-24 text-right">Amount</span>
       </div>
@@ -113,9 +120,12 @@ export default function TransactionList({
           key={tx.id}
           transaction={tx}
           categories={categories}
+          members={members}
           selected={selectedIds.has(tx.id)}
           onSelect={toggleSelect}
           onCategoryChange={onCategoryChange}
+          onMemberChange={onMemberChange}
+          onResolveDuplicate={onResolveDuplicate}
         />
       ))}
     </div>
@@ -1,23 +1,40 @@
 "use client";
 
-import type { TransactionItem, CategoryItem } from "@/types";
+import { useState } from "react";
+import type { TransactionItem, CategoryItem, FamilyMember } from "@/types";
 import CategoryPicker from "./CategoryPicker";
+import TransactionHistory from "./TransactionHistory";
+
+const MEMBER_SOURCE_LABELS: Record<string, string> = {
+  manual: "Chosen by hand",
+  rule: "Set by a rule",
+  account: "Account owner",
+};
 
 interface TransactionRowProps {
   transaction: TransactionItem;
   categories: CategoryItem[];
+  // Empty hides the "who spent it" picker (single-person households)
+  members: FamilyMember[];
   selected: boolean;
   onSelect: (id: string) => void;
   onCategoryChange: (txId: string, categoryId: string) => void;
+  onMemberChange: (txId: string, memberId: string | null) => void;
+  onResolveDuplicate: (txId: string, keep: boolean) => void;
 }
 
 export default function TransactionRow({
   transaction: tx,
   categories,
+  members,
   selected,
   onSelect,
   onCategoryChange,
+  onMemberChange,
+  onResolveDuplicate,
 }: TransactionRowProps) {
+  const [showHistory, setShowHistory] = useState(false);
+
   const dateStr = new Date(tx.date).toLocaleDateString("en-AU", {
     day: "2-digit",
     month: "short",
@@ -27,61 +44,119 @@ export default function TransactionRow({
   const amountStr = `${isDebit ? "-" : "+"}$${Math.abs(tx.amount).toFixed(2)}`;
 
   return (
-    <div
-      className={`flex items-center gap-3 px-4 py-3 border-b border-surface-hover hover:bg-surface-hover/50 transition-colors ${
-        tx.isExcluded ? "opacity-50" : ""
-      } ${tx.isTransfer ? "opacity-60" : ""}`}
-    >
-      <input
-        type="checkbox"
-        checked={selected}
-        onChange={() => onSelect(tx.id)}
-        className="rounded border-surface-hover bg-background"
-      />
+    <div>
+      <div
+        className={`flex items-center gap-3 px-4 py-3 border-b border-surface-hover hover:bg-surface-hover/50 transition-colors ${
+          tx.isExcluded ? "opacity-50" : ""
+        } ${tx.isTransfer ? "opacity-60" : ""}`}
+      >
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={() => onSelect(tx.id)}
+          className="rounded border-surface-hover bg-background"
+        />
 
-      <span className="text-xs text-text-muted w-14 shrink-0">{dateStr}</span>
+        <span className="text-xs text-text-muted w-14 shrink-0">{dateStr}</span>
 
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2">
-          <p className="text-sm text-foreground truncate">
-            {tx.cleanDescription || tx.description}
-          </p>
-          {tx.isTransfer && (
-            <span className="shrink-0 text-[10px] px-1.5 py-0.5 rounded-full bg-accent/15 text-accent-light font-medium">
-              Transfer
-            </span>
-          )}
-        </div>
-        {tx.merchantName &&
-          tx.merchantName !== tx.cleanDescription && (
-            <p className="text-xs text-text-muted truncate">
-              {tx.merchantName}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-sm text-foreground truncate">
+              {tx.cleanDescription || tx.description}
             </p>
+            {tx.status === "pending" && (
+              <span
+                title="Not yet posted by the bank; the amount may still change"
+                className="shrink-0 text-[10px] px-1.5 py-0.5 rounded-full bg-warning/15 text-warning font-medium"
+              >
+                Pending
+              </span>
+            )}
+            {tx.isTransfer && (
+              <span className="shrink-0 text-[10px] px-1.5 py-0.5 rounded-full bg-accent/15 text-accent-light font-medium">
+                Transfer
+              </span>
+            )}
+            {tx.ruleId && (
+              <span
+                title={tx.rulePattern ? `Matched rule: ${tx.rulePattern}` : "Matched a deleted rule"}
+                className="shrink-0 text-[10px] px-1.5 py-0.5 rounded-full bg-surface-hover text-text-muted font-medium"
+              >
+                Rule
+              </span>
+            )}
+            <button
+              onClick={() => setShowHistory((v) => !v)}
+              className="shrink-0 text-[10px] text-text-muted hover:text-foreground"
+            >
+              {showHistory ? "Hide history" : "History"}
+            </button>
+          </div>
+          {tx.duplicateOfId && (
+            <div className="flex items-center gap-2 text-xs mt-0.5">
+              <span className="text-warning">Possible duplicate</span>
+              <button
+                onClick={() => onResolveDuplicate(tx.id, true)}
+                className="text-text-muted hover:text-foreground"
+              >
+                Keep
+              </button>
+              <button
+                onClick={() => onResolveDuplicate(tx.id, false)}
+                className="text-over-budget hover:underline"
+              >
+                Delete
+              </button>
+            </div>
           )}
-      </div>
+          {tx.merchantName &&
+            tx.merchantName !== tx.cleanDescription && (
+              <p className="text-xs text-text-muted truncate">
+                {tx.merchantName}
+              </p>
+            )}
+        </div>
 
-      <CategoryPicker
-        categories={categories}
-        currentCategoryId={tx.categoryId}
-        onSelect={(catId) => onCategoryChange(tx.id, catId)}
-      />
+        <CategoryPicker
+          categories={categories}
+          currentCategoryId={tx.categoryId}
+          onSelect={(catId) => onCategoryChange(tx.id, catId)}
+        />
 
-      <span className="text-xs text-text-muted w-24 truncate text-right">
-        {tx.accountName}
-      </span>
+        {members.length > 0 && (
+          <select
+            value={tx.memberId || ""}
+            onChange={(e) => onMemberChange(tx.id, e.target.value || null)}
+            title={tx.memberSource ? MEMBER_SOURCE_LABELS[tx.memberSource] : "Not attributed"}
+            className="w-20 bg-transparent text-xs text-text-muted truncate"
+          >
+            <option value="">Shared</option>
+            {members.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.name}
+              </option>
+            ))}
+          </select>
+        )}
 
-      <span
-        className={`text-sm font-mono font-medium w-24 text-right ${
-          tx.isTransfer
-            ? "text-text-muted"
-            : isDebit
-              ? "text-over-budget"
-              : "text-on-track"
-        }`}
-      >
-        {tx.isTransfer && "🔄 "}
-        {amountStr}
-      </span>
+        <span className="text-xs text-text-muted w-24 truncate text-right">
+          {tx.accountName}
+        </span>
+
+        <span
+          className={`text-sm font-mono font-medium w-24 text-right ${
+            tx.isTransfer
+              ? "text-text-muted"
+              : isDebit
+                ? "text-over-budget"
+                : "text-on-track"
+          }`}
+        >
+          {tx.isTransfer && "🔄 "}
+          {amountStr}
+        </span>
+      </div>
+      {showHistory && <TransactionHistory transactionId={tx.id} />}
     </div>
   );
 }
@@ -0,0 +1,23 @@
+/**
+ * Runs once when the server starts. In production, refuse to start with a
+ * missing or placeholder JWT_SECRET rather than issue forgeable tokens.
+ * Then start the job worker, so queued and interrupted jobs resume without
+ * waiting for someone to open the jobs API.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  if (process.env.NODE_ENV === "production") {
+    const { jwtSecretProblem } = await import("./lib/auth");
+    const problem = jwtSecretProblem();
+    if (problem) {
+      console.error(
+        `Refusing to start: ${problem}. Set JWT_SECRET to a random string of at least 32 characters.`
+      );
+      process.exit(1);
+    }
+  }
+
+  const { startJobWorker } = await import("./lib/jobs");
+  startJobWorker();
+}
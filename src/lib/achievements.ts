@@ -0,0 +1,194 @@
+import { prisma } from "./db";
+import type { AchievementItem } from "@/types";
+import { Prisma } from "@prisma/client";
+import type { Achievement, Goal, PeriodSnapshot } from "@prisma/client";
+
+export const STREAK_THRESHOLDS = [2, 4, 8, 12, 26, 52];
+
+// Health score that earns the "Healthy Household" badge
+const HEALTHY_SCORE = 80;
+
+interface AchievementState {
+  connectionCount: number;
+  transactionCount: number;
+  goals: Goal[];
+  fortnights: PeriodSnapshot[];
+}
+
+interface AchievementCandidate {
+  key: string;
+  type: string;
+  title: string;
+  description: string;
+  metadata?: Record<string, unknown>;
+}
+
+type AchievementRule = (state: AchievementState) => AchievementCandidate[];
+
+/**
+ * Longest run of consecutive fortnights with every category under budget.
+ * Snapshots must be in date order.
+ */
+export function longestUnderBudgetStreak(fortnights: PeriodSnapshot[]): number {
+  let longest = 0;
+  let current = 0;
+  for (const s of fortnights) {
+    current = s.wasUnderBudget ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+// Each rule returns every badge the current state qualifies for. Keys make
+// awards idempotent, so rules don't need to know what's already been earned.
+const RULES: AchievementRule[] = [
+  (state) =>
+    state.connectionCount > 0
+      ? [{
+          key: "first-connection",
+          type: "milestone",
+          title: "Connected",
+          description: "Linked your first bank connection.",
+        }]
+      : [],
+
+  (state) =>
+    state.transactionCount > 0
+      ? [{
+          key: "first-transactions",
+          type: "milestone",
+          title: "Up and Running",
+          description: "Brought in your first transactions.",
+        }]
+      : [],
+
+  (state) =>
+    state.goals.length > 0
+      ? [{
+          key: "first-goal",
+          type: "goal",
+          title: "Dream Big",
+          description: "Set your first savings goal.",
+        }]
+      : [],
+
+  (state) =>
+    state.goals
+      .filter((g) => g.isCompleted)
+      .map((g) => ({
+        key: `goal-completed:${g.id}`,
+        type: "goal",
+        title: "Goal Smashed",
+        description: `Completed the ${g.name} goal.`,
+        metadata: { goalId: g.id },
+      })),
+
+  (state) => {
+    const first = state.fortnights.find((s) => s.wasUnderBudget);
+    return first
+      ? [{
+          key: "fortnight-under-budget",
+          type: "budget",
+          title: "Under Budget",
+          description: "Finished a fortnight with every category under budget.",
+          metadata: { periodStart: first.periodStart.toISOString() },
+        }]
+      : [];
+  },
+
+  (state) => {
+    const streak = longestUnderBudgetStreak(state.fortnights);
+    return STREAK_THRESHOLDS.filter((n) => streak >= n).map((n) => ({
+      key: `streak-${n}`,
+      type: "streak",
+      title: `${n} Fortnight Streak`,
+      description: `${n} fortnights in a row with every category under budget.`,
+      metadata: { streak: n },
+    }));
+  },
+
+  (state) => {
+    const healthy = state.fortnights.find((s) => s.healthScore >= HEALTHY_SCORE);
+    return healthy
+      ? [{
+          key: "healthy-household",
+          type: "health",
+          title: "Healthy Household",
+          description: `Closed a fortnight with a health score of ${HEALTHY_SCORE} or more.`,
+          metadata: { periodStart: healthy.periodStart.toISOString() },
+        }]
+      : [];
+  },
+];
+
+/**
+ * Run every achievement rule and award any badges not yet earned.
+ * Returns the newly awarded achievements; a badge another evaluation
+ * awarded first isn't among them.
+ */
+export async function evaluateAchievements(): Promise<Achievement[]> {
+  const [connectionCount, transactionCount, goals, fortnights, existing] =
+    await Promise.all([
+      prisma.bankConnection.count(),
+      prisma.transaction.count(),
+      prisma.goal.findMany(),
+      prisma.periodSnapshot.findMany({
+        where: { periodType: "fortnight" },
+        orderBy: { periodStart: "asc" },
+      }),
+      prisma.achievement.findMany({ select: { key: true } }),
+    ]);
+
+  const state: AchievementState = {
+    connectionCount,
+    transactionCount,
+    goals,
+    fortnights,
+  };
+  const earned = new Set(existing.map((a) => a.key));
+
+  const awarded: Achievement[] = [];
+  for (const rule of RULES) {
+    for (const candidate of rule(state)) {
+      if (earned.has(candidate.key)) continue;
+      earned.add(candidate.key);
+
+      try {
+        awarded.push(
+          await prisma.achievement.create({
+            data: {
+              key: candidate.key,
+              type: candidate.type,
+              title: candidate.title,
+              description: candidate.description,
+              metadata: candidate.metadata
+                ? JSON.stringify(candidate.metadata)
+                : null,
+            },
+          })
+        );
+      } catch (err) {
+        // Awarded by a concurrent evaluation (an import job and a request,
+        // say) since `existing` was read
+        if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+          continue;
+        }
+        throw err;
+      }
+    }
+  }
+
+  return awarded;
+}
+
+export function toAchievementItem(a: Achievement): AchievementItem {
+  return {
+    id: a.id,
+    key: a.key,
+    type: a.type,
+    title: a.title,
+    description: a.description,
+    earnedAt: a.earnedAt.toISOString(),
+    seen: a.seen,
+  };
+}
@@ -0,0 +1,155 @@
+import { prisma } from "./db";
+import { getBudgetActuals } from "./budgets";
+import { getCurrentFortnightDates } from "./periods";
+import { toGoalItem } from "./goals";
+import { CLAUDE_MODEL, getClaudeClient, responseText } from "./claude";
+import type { ChatMessage } from "./claude";
+import { decimalToNumber } from "@/types";
+
+const ADVISOR_TIMEOUT_MS = 30000;
+const FALLBACK_REPLY = "I couldn't generate a suggestion right now. Please try again shortly.";
+
+// Only the most recent turns are sent to keep token usage lean
+const MAX_HISTORY_MESSAGES = 20;
+
+export interface AdvisorContext {
+  period: { start: string; end: string };
+  currentPeriodBudgets: {
+    category: string;
+    budget: number;
+    actual: number;
+    status: string;
+  }[];
+  goals: {
+    name: string;
+    target: number;
+    current: number;
+    percentage: number;
+    targetDate: string | null;
+    projectedDate: string | null;
+  }[];
+  recentTrends: {
+    periodStart: string;
+    periodEnd: string;
+    income: number;
+    expenses: number;
+    netSavings: number;
+    wasUnderBudget: boolean;
+  }[];
+  totalIncome: number;
+  totalExpenses: number;
+  netSavings: number;
+}
+
+const day = (d: Date | string) => new Date(d).toISOString().split("T")[0];
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Gather the financial context the advisor sees: this fortnight's budgets
+ * vs actuals, goal progress and the last six period snapshots.
+ */
+export async function buildAdvisorContext(): Promise<AdvisorContext> {
+  const { start, end } = getCurrentFortnightDates();
+
+  const [{ actuals, summary }, goals, snapshots] = await Promise.all([
+    getBudgetActuals(start, end),
+    prisma.goal.findMany({
+      include: { contributions: true, milestones: true },
+      orderBy: { priority: "asc" },
+    }),
+    prisma.periodSnapshot.findMany({
+      where: { periodType: "fortnight" },
+      orderBy: { periodStart: "desc" },
+      take: 6,
+    }),
+  ]);
+
+  return {
+    period: { start: day(start), end: day(end) },
+    currentPeriodBudgets: actuals.map((a) => ({
+      category: a.memberName
+        ? `${a.categoryName} (${a.memberName}'s allowance)`
+        : a.categoryName,
+      budget: round(a.budgetAmount),
+      actual: round(a.actualAmount),
+      status: a.status,
+    })),
+    goals: goals.map(toGoalItem).map((g) => ({
+      name: g.name,
+      target: round(g.targetAmount),
+      current: round(g.currentAmount),
+      percentage: Math.round(g.percentage),
+      targetDate: g.targetDate ? day(g.targetDate) : null,
+      projectedDate: g.projectedDate ? day(g.projectedDate) : null,
+    })),
+    recentTrends: snapshots.reverse().map((s) => ({
+      periodStart: day(s.periodStart),
+      periodEnd: day(s.periodEnd),
+      income: round(decimalToNumber(s.totalIncome)),
+      expenses: round(decimalToNumber(s.totalExpenses)),
+      netSavings: round(decimalToNumber(s.netSavings)),
+      wasUnderBudget: s.wasUnderBudget,
+    })),
+    totalIncome: round(summary.totalIncome),
+    totalExpenses: round(summary.totalExpenses),
+    netSavings: round(summary.net),
+  };
+}
+
+export function buildAdvisorSystemPrompt(context: AdvisorContext): string {
+  return `You are a practical, encouraging family financial advisor for an Australian household.
+You have access to their real financial data (provided below).
+
+Your job is to:
+1. Answer questions about their spending and financial position
+2. Suggest specific, actionable budget tweaks to help hit their goals
+3. Run "what-if" scenarios when asked (e.g., "what if we cut dining by $100/fortnight?")
+4. Be encouraging but honest — celebrate wins, flag risks
+
+Rules:
+- Always reference actual numbers from their data
+- Suggestions must be specific: "Reduce Dining Out from $280 to $180/fortnight" not "spend less on food"
+- When suggesting cuts, acknowledge the tradeoff ("you'd eat out twice less per fortnight")
+- Frame everything in fortnightly periods (this family budgets fortnightly)
+- Use Australian dollars
+- Be concise. No waffle. Dot points for action items.
+- When calculating goal timelines, show the math briefly
+- Never give investment advice or recommend specific financial products
+
+CURRENT FINANCIAL DATA:
+${JSON.stringify(context)}`;
+}
+
+/**
+ * Ask the advisor a question in the context of the conversation so far.
+ * Never throws — returns a friendly fallback if Claude is unavailable.
+ */
+export async function getAdvisorResponse(
+  userMessage: string,
+  context: AdvisorContext,
+  history: ChatMessage[]
+): Promise<string> {
+  const client = getClaudeClient();
+  if (!client) return FALLBACK_REPLY;
+
+  try {
+    const response = await client.messages.create(
+      {
+        model: CLAUDE_MODEL,
+        max_tokens: 1024,
+        system: buildAdvisorSystemPrompt(context),
+        messages: [
+          ...history
+            .slice(-MAX_HISTORY_MESSAGES)
+            .map((m) => ({ role: m.role, content: m.content })),
+          { role: "user", content: userMessage },
+        ],
+      },
+      { timeout: ADVISOR_TIMEOUT_MS }
+    );
+    return responseText(response) || FALLBACK_REPLY;
+  } catch (err) {
+    console.error("Advisor error:", err);
+    return FALLBACK_REPLY;
+  }
+}
@@ -0,0 +1,183 @@
+import { prisma } from "./db";
+import type { AuditEntry } from "@prisma/client";
+import type {
+  AuditChange,
+  AuditEntityType,
+  AuditEntryItem,
+  AuditValue,
+} from "@/types";
+
+/**
+ * Append-only log of who changed financial data and what it was before.
+ * Entries are only ever created: nothing in the app updates or deletes them.
+ */
+
+type Snapshot = Record<string, unknown>;
+
+// The fields worth auditing on each kind of record
+export const TRANSACTION_AUDIT_FIELDS = [
+  "date",
+  "description",
+  "amount",
+  "categoryId",
+  "memberId",
+  "notes",
+  "isExcluded",
+  "isTransfer",
+  "linkedTransactionId",
+  "duplicateOfId",
+] as const;
+export const ACCOUNT_AUDIT_FIELDS = [
+  "name",
+  "balance",
+  "type",
+  "institution",
+  "ownerId",
+] as const;
+export const CATEGORY_AUDIT_FIELDS = ["name", "icon", "colour", "parentId"] as const;
+export const RULE_AUDIT_FIELDS = [
+  "pattern",
+  "categoryId",
+  "priority",
+  "direction",
+  "accountId",
+  "merchantPattern",
+  "minAmount",
+  "maxAmount",
+  "dayOfMonthMin",
+  "dayOfMonthMax",
+  "setNotes",
+  "setExcluded",
+  "setTransfer",
+  "setCleanDescription",
+  "setMemberId",
+  "confidence",
+] as const;
+
+// Id fields stored with the name they pointed at
+const CATEGORY_ID_FIELDS = new Set(["categoryId", "parentId"]);
+const USER_ID_FIELDS = new Set(["memberId", "ownerId", "setMemberId"]);
+
+export interface AuditInput {
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  // null before a create, or after a delete
+  before: Snapshot | null;
+  after: Snapshot | null;
+}
+
+function auditValue(value: unknown): AuditValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  if (value instanceof Date) return value.toISOString();
+  // Prisma Decimals
+  return String(value);
+}
+
+/**
+ * The fields that differ between two snapshots of a record.
+ */
+export function diffChanges(
+  before: Snapshot | null,
+  after: Snapshot | null,
+  fields: readonly string[]
+): Record<string, AuditChange> {
+  const changes: Record<string, AuditChange> = {};
+  for (const field of fields) {
+    const from = auditValue(before?.[field]);
+    const to = auditValue(after?.[field]);
+    if (from !== to) changes[field] = { from, to };
+  }
+  return changes;
+}
+
+async function labelChanges(all: Record<string, AuditChange>[]): Promise<void> {
+  const categoryIds = new Set<string>();
+  const userIds = new Set<string>();
+  for (const changes of all) {
+    for (const [field, change] of Object.entries(changes)) {
+      const ids = CATEGORY_ID_FIELDS.has(field)
+        ? categoryIds
+        : USER_ID_FIELDS.has(field)
+          ? userIds
+          : null;
+      if (!ids) continue;
+      if (typeof change.from === "string") ids.add(change.from);
+      if (typeof change.to === "string") ids.add(change.to);
+    }
+  }
+  if (categoryIds.size === 0 && userIds.size === 0) return;
+
+  const [categories, users] = await Promise.all([
+    prisma.category.findMany({
+      where: { id: { in: [...categoryIds] } },
+      select: { id: true, name: true },
+    }),
+    prisma.user.findMany({
+      where: { id: { in: [...userIds] } },
+      select: { id: true, name: true },
+    }),
+  ]);
+  const names = new Map([...categories, ...users].map((r) => [r.id, r.name]));
+  const label = (v: AuditValue) => (typeof v === "string" ? names.get(v) ?? null : null);
+
+  for (const changes of all) {
+    for (const [field, change] of Object.entries(changes)) {
+      if (!CATEGORY_ID_FIELDS.has(field) && !USER_ID_FIELDS.has(field)) continue;
+      change.fromLabel = label(change.from);
+      change.toLabel = label(change.to);
+    }
+  }
+}
+
+/**
+ * Record changes made by a user. Inputs whose audited fields didn't change
+ * are skipped. Call before deleting anything a label points at, so the
+ * name can still be looked up. Returns the number of entries written.
+ */
+export async function recordAudit(
+  userId: string | null,
+  fields: readonly string[],
+  inputs: AuditInput[]
+): Promise<number> {
+  const entries = inputs
+    .map((input) => ({ input, changes: diffChanges(input.before, input.after, fields) }))
+    .filter((e) => Object.keys(e.changes).length > 0);
+  if (entries.length === 0) return 0;
+
+  await labelChanges(entries.map((e) => e.changes));
+
+  const { count } = await prisma.auditEntry.createMany({
+    data: entries.map(({ input, changes }) => ({
+      userId,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      action: input.action,
+      changes: JSON.stringify(changes),
+    })),
+  });
+  return count;
+}
+
+export async function toAuditItems(entries: AuditEntry[]): Promise<AuditEntryItem[]> {
+  const userIds = [...new Set(entries.flatMap((e) => (e.userId ? [e.userId] : [])))];
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, name: true },
+  });
+  const userNames = new Map(users.map((u) => [u.id, u.name]));
+
+  return entries.map((e) => ({
+    id: e.id,
+    userId: e.userId,
+    userName: e.userId ? userNames.get(e.userId) ?? null : null,
+    entityType: e.entityType as AuditEntityType,
+    entityId: e.entityId,
+    action: e.action,
+    changes: JSON.parse(e.changes),
+    createdAt: e.createdAt.toISOString(),
+  }));
+}
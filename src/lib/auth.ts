@@ -1,32 +1,148 @@
+import { createHash, timingSafeEqual } from "crypto";
 import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import { cookies } from "next/headers";
+import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "./db";
 
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret-change-me";
+const DEV_JWT_SECRET = "dev-secret-change-me";
 const JWT_EXPIRY = process.env.JWT_EXPIRY || "7d";
 const COOKIE_NAME = "auth-token";
 
+// A session lasts as long as its cookie
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+// Refresh a session's lastSeenAt at most this often, not on every request
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+// Time allowed between the password and the two-factor code
+const TWO_FACTOR_CHALLENGE_EXPIRY = "5m";
+
 export interface JWTPayload {
   userId: string;
   email: string;
   role: string;
+  // The server-side Session this token belongs to; revoking it logs out
+  sessionId: string;
+}
+
+/**
+ * Family roles, least to most trusted: viewers can look, members can also
+ * categorise, import and budget, admins can also manage accounts, bank
+ * connections and family members.
+ */
+export const ROLES = ["viewer", "member", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export class ForbiddenError extends Error {
+  constructor() {
+    super("Forbidden");
+  }
+}
+
+/**
+ * Why JWT_SECRET isn't fit for production, or null if it is. Anyone who
+ * knows the secret can forge a token for any user.
+ */
+export function jwtSecretProblem(): string | null {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) return "JWT_SECRET is not set";
+  if (secret === DEV_JWT_SECRET) return "JWT_SECRET is the development default";
+  if (secret.length < 32) return "JWT_SECRET is shorter than 32 characters";
+  return null;
+}
+
+function jwtSecret(): string {
+  if (process.env.NODE_ENV === "production") {
+    const problem = jwtSecretProblem();
+    if (problem) throw new Error(problem);
+  }
+  return process.env.JWT_SECRET || DEV_JWT_SECRET;
 }
 
 export function signToken(payload: JWTPayload): string {
-  return jwt.sign(payload, JWT_SECRET, {
+  return jwt.sign(payload, jwtSecret(), {
     expiresIn: JWT_EXPIRY as string | number,
   } as jwt.SignOptions);
 }
 
 export function verifyToken(token: string): JWTPayload | null {
+  const secret = jwtSecret();
   try {
-    return jwt.verify(token, JWT_SECRET) as JWTPayload;
+    return jwt.verify(token, secret) as JWTPayload;
   } catch {
     return null;
   }
 }
 
+/**
+ * A short-lived token saying this user got their password right and still
+ * owes a two-factor code. It carries no session, so it can't be used as an
+ * auth cookie.
+ */
+export function signTwoFactorChallenge(userId: string): string {
+  return jwt.sign({ userId, purpose: "2fa" }, jwtSecret(), {
+    expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY,
+  });
+}
+
+/**
+ * The user a two-factor challenge was issued to, or null if it's invalid
+ * or has expired.
+ */
+export function verifyTwoFactorChallenge(token: string): string | null {
+  const secret = jwtSecret();
+  try {
+    const payload = jwt.verify(token, secret) as { userId?: string; purpose?: string };
+    return payload.purpose === "2fa" && payload.userId ? payload.userId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The email of the one account SERVICE_TOKEN signs in as, or null if no
+ * service account is configured.
+ */
+export function serviceAccountEmail(): string | null {
+  return process.env.SERVICE_ACCOUNT_EMAIL?.trim() || null;
+}
+
+/**
+ * Whether `token` is the SERVICE_TOKEN the sync and import scripts sign in
+ * with, which skips the password step. Unset, or shorter than 32
+ * characters, no token matches.
+ */
+export function serviceTokenMatches(token: string): boolean {
+  const expected = process.env.SERVICE_TOKEN;
+  if (!expected || expected.length < 32) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(token), digest(expected));
+}
+
+export const UNKNOWN_IP = "unknown";
+
+/**
+ * The client's IP address, as reported by the proxies in front of the app.
+ * Each proxy appends the address it saw to X-Forwarded-For, so only the
+ * last TRUSTED_PROXIES entries can be believed; anything to their left
+ * came from the client and can be made up. Without TRUSTED_PROXIES the
+ * header isn't trusted at all and the IP is unknown.
+ */
+export function clientIp(request: NextRequest): string {
+  const trustedProxies = parseInt(process.env.TRUSTED_PROXIES || "0", 10);
+  const forwarded = request.headers.get("x-forwarded-for");
+  if (!forwarded || !(trustedProxies > 0)) return UNKNOWN_IP;
+
+  const hops = forwarded.split(",").map((hop) => hop.trim());
+  // The address the outermost trusted proxy saw the request come from
+  return hops[Math.max(hops.length - trustedProxies, 0)] || UNKNOWN_IP;
+}
+
 export async function verifyPassword(
   password: string,
   hash: string
@@ -38,18 +154,73 @@ export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 12);
 }
 
-export async function setAuthCookie(payload: JWTPayload): Promise<void> {
-  const token = signToken(payload);
+/**
+ * Sign a user in on this device: record a Session for the request's
+ * browser and IP, and set a cookie holding a token for it.
+ */
+export async function startSession(
+  user: { id: string; email: string; role: string },
+  request: NextRequest
+): Promise<void> {
+  const ip = clientIp(request);
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      userAgent: request.headers.get("user-agent"),
+      ip: ip === UNKNOWN_IP ? null : ip,
+      expiresAt: new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000),
+    },
+  });
+
+  const token = signToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId: session.id,
+  });
   const cookieStore = await cookies();
   cookieStore.set(COOKIE_NAME, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === "production",
     sameSite: "lax",
-    maxAge: 60 * 60 * 24 * 7, // 7 days
+    maxAge: SESSION_MAX_AGE_SECONDS,
     path: "/",
   });
 }
 
+/**
+ * Revoke a user's sessions, signing them out everywhere (or everywhere
+ * but `exceptSessionId`). Returns how many were revoked.
+ */
+export async function revokeSessions(
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
+
+/**
+ * Sign out this device: revoke its session and clear the cookie.
+ */
+export async function endSession(): Promise<void> {
+  const auth = await getAuthFromCookie();
+  if (auth) {
+    await prisma.session.updateMany({
+      where: { id: auth.sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+  await clearAuthCookie();
+}
+
 export async function clearAuthCookie(): Promise<void> {
   const cookieStore = await cookies();
   cookieStore.set(COOKIE_NAME, "", {
@@ -61,11 +232,39 @@ export async function clearAuthCookie(): Promise<void> {
   });
 }
 
+/**
+ * The signed-in user, if the cookie holds a valid token for a session
+ * that hasn't been revoked or expired.
+ */
 export async function getAuthFromCookie(): Promise<JWTPayload | null> {
   const cookieStore = await cookies();
   const token = cookieStore.get(COOKIE_NAME)?.value;
   if (!token) return null;
-  return verifyToken(token);
+
+  const auth = verifyToken(token);
+  // Tokens from before sessions existed have no sessionId
+  if (!auth?.sessionId) return null;
+
+  const session = await prisma.session.findUnique({
+    where: { id: auth.sessionId },
+  });
+  const now = new Date();
+  if (
+    !session ||
+    session.userId !== auth.userId ||
+    session.revokedAt ||
+    session.expiresAt < now
+  ) {
+    return null;
+  }
+
+  if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: session.id },
+      data: { lastSeenAt: now },
+    });
+  }
+  return auth;
 }
 
 export async function requireAuth(): Promise<JWTPayload> {
@@ -82,5 +281,26 @@ export async function requireAuth(): Promise<JWTPayload> {
     throw new Error("Unauthorized");
   }
 
+  // The stored role wins over the token's, so a role change applies at once
+  return { ...auth, role: user.role };
+}
+
+/**
+ * requireAuth, plus the user's role must be at least `role`. Throws
+ * ForbiddenError if it isn't.
+ */
+export async function requireRole(role: Role): Promise<JWTPayload> {
+  const auth = await requireAuth();
+  const rank = isRole(auth.role) ? ROLES.indexOf(auth.role) : 0;
+  if (rank < ROLES.indexOf(role)) {
+    throw new ForbiddenError();
+  }
   return auth;
 }
+
+// 403 for a logged-in user without the role, 401 otherwise
+export function authErrorResponse(err: unknown): NextResponse {
+  return err instanceof ForbiddenError
+    ? NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    : NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
@@ -113,6 +113,7 @@ class BasiqClient {
       fromDate?: string;
       toDate?: string;
       accountId?: string;
+      status?: "pending" | "posted";
     }
   ): Promise<BasiqTransaction[]> {
     const params = new URLSearchParams();
@@ -122,6 +123,8 @@ class BasiqClient {
       params.set("filter[transaction.postDate][lte]", filters.toDate);
     if (filters?.accountId)
       params.set("filter[account.id]", filters.accountId);
+    if (filters?.status)
+      params.set("filter[transaction.status]", filters.status);
 
     const query = params.toString() ? `?${params.toString()}` : "";
     const allTransactions: BasiqTransaction[] = [];
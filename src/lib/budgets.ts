@@ -0,0 +1,239 @@
+import { prisma } from "./db";
+import { memberWhere, UNASSIGNED_MEMBER } from "./members";
+import type { BudgetVsActual, PeriodSummary, PeriodType } from "@/types";
+import type { Budget } from "@prisma/client";
+import Decimal from "decimal.js";
+
+// How many of each budget period, and each reporting period, fit in a year.
+// Budgets without a recognised period are fortnightly, the schema default.
+const BUDGET_PERIODS_PER_YEAR: Record<string, number> = {
+  weekly: 52,
+  fortnightly: 26,
+  monthly: 12,
+};
+const PERIODS_PER_YEAR: Record<PeriodType, number> = { fortnight: 26, month: 12 };
+const BUDGET_PERIOD_FOR: Record<PeriodType, string> = {
+  fortnight: "fortnightly",
+  month: "monthly",
+};
+
+const budgetPeriodsPerYear = (b: Budget) => BUDGET_PERIODS_PER_YEAR[b.period] ?? 26;
+
+/**
+ * One budget per category (per member, for allowances) for the reporting
+ * period: a budget set for that period wins, then the most recent. Its
+ * amount is scaled to the period, so a $100 fortnightly budget allows
+ * $216.67 over a month.
+ */
+function budgetsForPeriod<T extends Budget>(
+  budgets: T[],
+  periodType: PeriodType
+): { budget: T; amount: Decimal }[] {
+  const matches = (b: Budget) => b.period === BUDGET_PERIOD_FOR[periodType];
+  const chosen = new Map<string, T>();
+  for (const b of budgets) {
+    const key = `${b.memberId ?? ""}:${b.categoryId}`;
+    const current = chosen.get(key);
+    if (
+      !current ||
+      (matches(b) && !matches(current)) ||
+      (matches(b) === matches(current) && b.startDate > current.startDate)
+    ) {
+      chosen.set(key, b);
+    }
+  }
+
+  // Keep the budgets' own (category sort) order
+  return budgets
+    .filter((b) => chosen.get(`${b.memberId ?? ""}:${b.categoryId}`) === b)
+    .map((budget) => ({
+      budget,
+      amount: new Decimal(budget.amount.toString())
+        .times(budgetPeriodsPerYear(budget))
+        .div(PERIODS_PER_YEAR[periodType])
+        .toDecimalPlaces(2),
+    }));
+}
+
+/**
+ * Budget vs actual for every budgeted category over a period, plus the
+ * period's income / expense / savings summary. Transfers are excluded
+ * from income and spending. Pending card holds count unless
+ * `includePending` is false.
+ *
+ * Household budgets count everyone's spending in the category; a personal
+ * allowance (a budget with a memberId) counts only that member's. Given a
+ * `member`, all figures are that member's transactions and only their
+ * allowances are listed alongside the household budgets.
+ *
+ * Budgets are measured against the `periodType` the range covers: each
+ * category gets one budget, scaled to that period's length (see
+ * budgetsForPeriod).
+ */
+export async function getBudgetActuals(
+  periodStart: Date,
+  periodEnd: Date,
+  {
+    includePending = true,
+    member = null,
+    periodType = "fortnight",
+  }: { includePending?: boolean; member?: string | null; periodType?: PeriodType } = {}
+): Promise<{ actuals: BudgetVsActual[]; summary: PeriodSummary }> {
+  const statusFilter = {
+    ...(!includePending && { status: "posted" }),
+    ...memberWhere(member),
+  };
+
+  // Household budgets, plus allowances for the member (everyone's if none given)
+  const budgets = await prisma.budget.findMany({
+    where:
+      member === UNASSIGNED_MEMBER
+        ? { memberId: null }
+        : member
+          ? { OR: [{ memberId: null }, { memberId: member }] }
+          : {},
+    include: {
+      category: {
+        select: { id: true, name: true, icon: true, colour: true },
+      },
+    },
+    orderBy: { category: { sortOrder: "asc" } },
+  });
+
+  // Get actual spending per category for the period — EXCLUDE transfers
+  const spendingTxs = await prisma.transaction.findMany({
+    where: {
+      date: { gte: periodStart, lte: periodEnd },
+      ...statusFilter,
+      direction: "debit",
+      isExcluded: false,
+      isTransfer: false,
+    },
+    select: {
+      categoryId: true,
+      memberId: true,
+      amount: true,
+    },
+  });
+
+  // Sum actuals by category, and by member and category for allowances
+  const actualsByCategory: Record<string, Decimal> = {};
+  const actualsByMember: Record<string, Decimal> = {};
+  for (const tx of spendingTxs) {
+    const catId = tx.categoryId || "uncategorised";
+    const amount = new Decimal(tx.amount.toString()).abs();
+    actualsByCategory[catId] = (actualsByCategory[catId] || new Decimal(0)).plus(amount);
+    if (tx.memberId) {
+      const key = `${tx.memberId}:${catId}`;
+      actualsByMember[key] = (actualsByMember[key] || new Decimal(0)).plus(amount);
+    }
+  }
+
+  const memberIds = [...new Set(budgets.flatMap((b) => (b.memberId ? [b.memberId] : [])))];
+  const members = await prisma.user.findMany({
+    where: { id: { in: memberIds } },
+    select: { id: true, name: true },
+  });
+  const memberNames = new Map(members.map((m) => [m.id, m.name]));
+
+  // Build budget vs actual comparison
+  const actuals: BudgetVsActual[] = budgetsForPeriod(budgets, periodType).map(({ budget: b, amount }) => {
+    const budgetAmount = Number(amount);
+    const actual = b.memberId
+      ? actualsByMember[`${b.memberId}:${b.categoryId}`]
+      : actualsByCategory[b.categoryId];
+    const actualAmount = actual ? Number(actual) : 0;
+    const percentage =
+      budgetAmount > 0 ? (actualAmount / budgetAmount) * 100 : 0;
+
+    let status: BudgetVsActual["status"] = "on-track";
+    if (percentage >= 100) status = "over-budget";
+    else if (percentage >= 80) status = "warning";
+
+    return {
+      categoryId: b.categoryId,
+      categoryName: b.category.name,
+      categoryIcon: b.category.icon,
+      categoryColour: b.category.colour,
+      memberId: b.memberId,
+      memberName: b.memberId ? memberNames.get(b.memberId) ?? null : null,
+      budgetAmount,
+      actualAmount,
+      percentage,
+      status,
+    };
+  });
+
+  // --- Period financial summary (for dashboard) ---
+  // Real income: credits that are NOT transfers
+  const incomeTxs = await prisma.transaction.findMany({
+    where: {
+      date: { gte: periodStart, lte: periodEnd },
+      ...statusFilter,
+      direction: "credit",
+      isExcluded: false,
+      isTransfer: false,
+    },
+    select: { amount: true },
+  });
+  const totalIncome = incomeTxs.reduce(
+    (sum, tx) => sum.plus(new Decimal(tx.amount.toString()).abs()),
+    new Decimal(0)
+  );
+
+  // Real expenses: debits that are NOT transfers
+  const totalExpenses = spendingTxs.reduce(
+    (sum, tx) => sum.plus(new Decimal(tx.amount.toString()).abs()),
+    new Decimal(0)
+  );
+
+  // Savings movements: transfers to savings-type accounts (debit side of linked transfers)
+  const savingsTransfers = await prisma.transaction.findMany({
+    where: {
+      date: { gte: periodStart, lte: periodEnd },
+      ...statusFilter,
+      isTransfer: true,
+      direction: "debit",
+      isExcluded: false,
+    },
+    select: {
+      amount: true,
+      linkedTransactionId: true,
+      category: { select: { name: true } },
+    },
+  });
+  const totalSavings = savingsTransfers
+    .filter((tx) => tx.category?.name === "Savings Transfer")
+    .reduce(
+      (sum, tx) => sum.plus(new Decimal(tx.amount.toString()).abs()),
+      new Decimal(0)
+    );
+  // Loan repayments includes mortgage and personal loans
+  const totalMortgage = savingsTransfers
+    .filter((tx) =>
+      tx.category?.name === "Loan Repayment" ||
+      tx.category?.name === "Personal Loan Repayment"
+    )
+    .reduce(
+      (sum, tx) => sum.plus(new Decimal(tx.amount.toString()).abs()),
+      new Decimal(0)
+    );
+
+  return {
+    actuals,
+    summary: {
+      totalIncome: Number(totalIncome),
+      totalExpenses: Number(totalExpenses),
+      totalSavings: Number(totalSavings),
+      totalMortgage: Number(totalMortgage),
+      net: Number(totalIncome.minus(totalExpenses)),
+    },
+  };
+}
+
+/**
+ * True when every budgeted category came in at or under its budget.
+ */
+export function isUnderBudget(actuals: BudgetVsActual[]): boolean {
+  return actuals.length > 0 && actuals.every((a) => a.actualAmount <= a.budgetAmount);
+}
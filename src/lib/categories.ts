@@ -1,30 +1,10 @@
 import { prisma } from "./db";
+import { findMatchingRule, ruleSetFields } from "./rules";
+import type { RuleInput, RuleMatch } from "./rules";
+import { redetectAllTransfers } from "./transfers";
+import type { JobContext } from "./jobs";
 import Anthropic from "@anthropic-ai/sdk";
 
-// Tier 1: Rule-based matching (from manual corrections — fastest)
-async function matchByRules(description: string): Promise<string | null> {
-  const rules = await prisma.categoryRule.findMany({
-    orderBy: { confidence: "desc" },
-  });
-
-  const upperDesc = description.toUpperCase();
-
-  for (const rule of rules) {
-    try {
-      const regex = new RegExp(rule.pattern, "i");
-      if (regex.test(description)) {
-        return rule.categoryId;
-      }
-    } catch {
-      if (upperDesc.includes(rule.pattern.toUpperCase())) {
-        return rule.categoryId;
-      }
-    }
-  }
-
-  return null;
-}
-
 /**
  * Tier 2: Claude AI batch categorisation + transfer detection.
  *
@@ -149,15 +129,13 @@ Return ONLY a valid JSON object mapping transaction ID to result. Example:
 }
 
 /**
- * Main categorisation: tries rules first, returns null if no match.
+ * Main categorisation: tries rules first (see ./rules), returns null if no match.
  * The batch AI path is called separately after import for uncategorised transactions.
  */
 export async function categoriseTransaction(
-  description: string
-): Promise<string | null> {
-  const ruleMatch = await matchByRules(description);
-  if (ruleMatch) return ruleMatch;
-  return null;
+  tx: RuleInput
+): Promise<RuleMatch | null> {
+  return findMatchingRule(tx);
 }
 
 /**
@@ -170,16 +148,36 @@ export async function createCategoryRule(
   const pattern = extractPattern(description);
   if (!pattern) return;
 
-  await prisma.categoryRule.upsert({
-    where: { pattern },
-    update: { categoryId, confidence: 1.0 },
-    create: {
+  // Only update the plain description rule — conditional rules sharing
+  // the pattern are managed by hand in Settings
+  const existing = await prisma.categoryRule.findFirst({
+    where: {
       pattern,
-      categoryId,
-      confidence: 1.0,
-      source: "manual",
+      minAmount: null,
+      maxAmount: null,
+      direction: null,
+      accountId: null,
+      merchantPattern: null,
+      dayOfMonthMin: null,
+      dayOfMonthMax: null,
     },
   });
+
+  if (existing) {
+    await prisma.categoryRule.update({
+      where: { id: existing.id },
+      data: { categoryId, confidence: 1.0 },
+    });
+  } else {
+    await prisma.categoryRule.create({
+      data: {
+        pattern,
+        categoryId,
+        confidence: 1.0,
+        source: "manual",
+      },
+    });
+  }
 }
 
 function extractPattern(description: string): string {
@@ -195,3 +193,100 @@ function extractPattern(description: string): string {
   const words = cleaned.split(/\s+/).slice(0, 3);
   return words.join(" ").toUpperCase();
 }
+
+/**
+ * Re-run AI categorisation on all transactions, leaving manual and rule-set
+ * categories alone, then re-link cross-account transfers. Runs as a background job.
+ */
+export async function recategoriseAll(
+  _payload: Record<string, never>,
+  ctx: JobContext
+): Promise<Record<string, unknown>> {
+  // Get ALL transactions with account context
+  const allTransactions = await prisma.transaction.findMany({
+    include: {
+      account: { select: { name: true, type: true } },
+    },
+    orderBy: { date: "desc" },
+  });
+
+  const allAccounts = await prisma.account.findMany({
+    select: { name: true, type: true },
+  });
+
+  let aiCategorised = 0;
+  let aiTransfers = 0;
+
+  // Process in batches of 50
+  const BATCH_SIZE = 50;
+  for (let i = 0; i < allTransactions.length; i += BATCH_SIZE) {
+    const batch = allTransactions.slice(i, i + BATCH_SIZE);
+    const aiBatches = Math.ceil(allTransactions.length / BATCH_SIZE);
+    await ctx.progress(
+      (i / allTransactions.length) * 90,
+      `AI categorisation batch ${i / BATCH_SIZE + 1} of ${aiBatches}`,
+      { aiBatch: i / BATCH_SIZE + 1, aiBatches, aiCategorised, aiTransfers }
+    );
+
+    const aiInput = batch.map((tx) => ({
+      id: tx.id,
+      description: tx.description,
+      amount: tx.amount.toString(),
+      direction: tx.direction,
+      accountName: tx.account.name,
+      accountType: tx.account.type,
+      date: tx.date.toISOString().split("T")[0],
+    }));
+
+    const aiResults = await categoriseWithAI(aiInput, allAccounts);
+
+    for (const [txId, result] of Object.entries(aiResults)) {
+      const existingTx = batch.find((t) => t.id === txId);
+      if (!existingTx) continue;
+
+      const updateData: Record<string, unknown> = {};
+      const ruleSet = ruleSetFields(existingTx);
+
+      // Only update category if not set by hand or by a rule
+      if (
+        existingTx.categorySource !== "manual" &&
+        existingTx.categorySource !== "rule" &&
+        !ruleSet.has("categoryId")
+      ) {
+        updateData.categoryId = result.categoryId;
+        updateData.categorySource = "ai";
+        aiCategorised++;
+      }
+
+      // Leave the transfer flag and clean description to a rule that set them
+      if (result.isTransfer && !ruleSet.has("isTransfer")) {
+        updateData.isTransfer = true;
+        aiTransfers++;
+      }
+
+      if (result.cleanDescription && !ruleSet.has("cleanDescription")) {
+        updateData.cleanDescription = result.cleanDescription;
+      }
+
+      if (Object.keys(updateData).length > 0) {
+        await prisma.transaction.update({
+          where: { id: txId },
+          data: updateData,
+        });
+      }
+    }
+  }
+
+  // Re-run cross-account transfer linking
+  await ctx.progress(90, "Linking transfers", { aiCategorised, aiTransfers });
+  const linkedTransfers = await redetectAllTransfers();
+  await ctx.progress(100, "Finishing up", { aiCategorised, aiTransfers, linkedTransfers });
+
+  return {
+    message: `AI recategorised ${aiCategorised} transactions, detected ${aiTransfers} transfers, linked ${linkedTransfers} cross-account transfers.`,
+    aiCategorised,
+    aiTransfers,
+    linkedTransfers,
+    totalProcessed: allTransactions.length,
+  };
+}
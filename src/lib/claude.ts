@@ -0,0 +1,73 @@
+import Anthropic from "@anthropic-ai/sdk";
+
+export const CLAUDE_MODEL = "claude-sonnet-4-5-20250929";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt?: string;
+}
+
+/**
+ * The slice of the Anthropic client the app relies on. Keeping it narrow
+ * lets a local stub stand in for the real API so flows can be run offline.
+ */
+export interface ClaudeClient {
+  messages: {
+    create(
+      body: Anthropic.MessageCreateParamsNonStreaming,
+      options?: { timeout?: number }
+    ): Promise<{ content: Array<{ type: string; text?: string }> }>;
+  };
+}
+
+/**
+ * Offline stand-in for Claude. Enabled with ANTHROPIC_STUB=true.
+ * Replies deterministically so the advisor can be exercised without a key.
+ */
+class StubClaudeClient implements ClaudeClient {
+  messages = {
+    create: async (body: Anthropic.MessageCreateParamsNonStreaming) => {
+      const last = body.messages[body.messages.length - 1];
+      const question = typeof last?.content === "string" ? last.content : "";
+      const priorTurns = Math.max(0, body.messages.length - 1);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `(offline stub) You asked: "${question}". I have ${priorTurns} earlier message${priorTurns === 1 ? "" : "s"} and your financial context to work from.`,
+          },
+        ],
+      };
+    },
+  };
+}
+
+let clientOverride: ClaudeClient | null = null;
+
+/**
+ * Swap in a client (e.g. a stub in tests). Pass null to restore the default.
+ */
+export function setClaudeClient(client: ClaudeClient | null): void {
+  clientOverride = client;
+}
+
+/**
+ * Returns the active Claude client, or null if none is configured.
+ */
+export function getClaudeClient(): ClaudeClient | null {
+  if (clientOverride) return clientOverride;
+  if (process.env.ANTHROPIC_STUB === "true") return new StubClaudeClient();
+  if (!process.env.ANTHROPIC_API_KEY) return null;
+  return new Anthropic();
+}
+
+/**
+ * Pull the text out of a Claude response.
+ */
+export function responseText(response: {
+  content: Array<{ type: string; text?: string }>;
+}): string {
+  const block = response.content[0];
+  return block?.type === "text" ? block.text || "" : "";
+}
@@ -0,0 +1,131 @@
+import { createHash } from "crypto";
+import { prisma } from "./db";
+import type { ParsedRow } from "./import-profiles";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reduce a description to what stays stable between exports. Banks append
+ * reference numbers, card digits and varying whitespace, so those go.
+ */
+export function normaliseDescription(description: string): string {
+  return description
+    .toUpperCase()
+    .replace(/\d{4,}/g, "")
+    .replace(/[^A-Z0-9]+/g, " ")
+    .trim();
+}
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+
+/**
+ * Fingerprint each row of a file. When the bank gives a running balance the
+ * fingerprint is date + amount + balance: two identical coffees leave
+ * different balances, and a reworded description doesn't matter. Without a
+ * balance it's date + amount + description + the row's position among
+ * identical rows that day, so the second coffee is "occurrence 1" in every
+ * export that contains it.
+ */
+export function fingerprintRows(accountId: string, rows: ParsedRow[]): string[] {
+  const seen = new Map<string, number>();
+
+  return rows.map((row) => {
+    const base = [
+      accountId,
+      dayKey(row.date),
+      row.direction,
+      row.amount.toFixed(2),
+    ];
+
+    let key: string[];
+    if (row.balance !== null) {
+      key = [...base, "bal", row.balance.toFixed(2)];
+    } else {
+      const identity = [...base, normaliseDescription(row.description)].join("|");
+      const occurrence = seen.get(identity) || 0;
+      seen.set(identity, occurrence + 1);
+      key = [...base, "desc", normaliseDescription(row.description), String(occurrence)];
+    }
+
+    return createHash("sha256").update(key.join("|")).digest("hex");
+  });
+}
+
+export type DuplicateCheck =
+  | { status: "duplicate" }
+  | { status: "new"; possibleDuplicateOf: string | null };
+
+/**
+ * Decide whether a row is already in the account.
+ *
+ * - Same fingerprint: a re-import, skip it.
+ * - Rows imported before fingerprints existed: matched exactly on
+ *   date/description/amount as before, counting repeats so a genuine second
+ *   coffee still gets through.
+ * - Same amount and direction within a day but otherwise different, and no
+ *   running balance to tell them apart: import it but flag it for review.
+ *
+ * `exclude` holds transactions created earlier in the same import, which are
+ * never duplicates of each other.
+ */
+export async function checkDuplicate(
+  accountId: string,
+  row: ParsedRow,
+  fingerprint: string,
+  occurrence: number,
+  exclude: Set<string>
+): Promise<DuplicateCheck> {
+  const exact = await prisma.transaction.findFirst({
+    where: { accountId, fingerprint },
+    select: { id: true },
+  });
+  if (exact) return { status: "duplicate" };
+
+  const legacy = await prisma.transaction.count({
+    where: {
+      accountId,
+      fingerprint: null,
+      date: row.date,
+      description: row.description,
+      amount: row.amount,
+      direction: row.direction,
+    },
+  });
+  if (occurrence < legacy) return { status: "duplicate" };
+
+  const nearby = await prisma.transaction.findMany({
+    where: {
+      accountId,
+      amount: row.amount,
+      direction: row.direction,
+      date: {
+        gte: new Date(row.date.getTime() - DAY_MS),
+        lte: new Date(row.date.getTime() + DAY_MS),
+      },
+    },
+    select: { id: true, runningBalance: true },
+  });
+  const candidate = nearby.find(
+    (t) =>
+      !exclude.has(t.id) &&
+      // Two different running balances mean two real transactions
+      !(t.runningBalance && row.balance && t.runningBalance.toFixed(2) !== row.balance.toFixed(2))
+  );
+
+  return { status: "new", possibleDuplicateOf: candidate?.id || null };
+}
+
+/**
+ * Each row's position among identical rows (same day, amount, direction and
+ * exact description) earlier in the file.
+ */
+export function occurrences(rows: ParsedRow[]): number[] {
+  const seen = new Map<string, number>();
+  return rows.map((row) => {
+    const key = [dayKey(row.date), row.direction, row.amount.toFixed(2), row.description].join("|");
+    const n = seen.get(key) || 0;
+    seen.set(key, n + 1);
+    return n;
+  });
+}
@@ -0,0 +1,281 @@
+import { prisma } from "./db";
+import { decimalToNumber } from "@/types";
+import type { GoalItem } from "@/types";
+import type { Prisma } from "@prisma/client";
+import Decimal from "decimal.js";
+
+export const MILESTONE_PERCENTAGES = [25, 50, 75, 100];
+
+// How far back to look when estimating the contribution rate for projections
+const PROJECTION_WINDOW_DAYS = 90;
+
+/**
+ * Derive the goal horizon from its target date.
+ * short (<6mo), medium (6mo-2yr), long (2yr+). No target date = long.
+ */
+export function horizonFromTargetDate(targetDate: Date | null): string {
+  if (!targetDate) return "long";
+  const months =
+    (targetDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24 * 30.44);
+  if (months < 6) return "short";
+  if (months < 24) return "medium";
+  return "long";
+}
+
+/**
+ * Create the 25/50/75/100% milestone rows for a new goal.
+ */
+export async function createMilestones(goalId: string): Promise<void> {
+  await prisma.goalMilestone.createMany({
+    data: MILESTONE_PERCENTAGES.map((percentage) => ({ goalId, percentage })),
+  });
+}
+
+/**
+ * Recalculate a goal's currentAmount from its contributions, then mark
+ * (or un-mark) milestones and completion to match.
+ *
+ * Contributions are the source of truth, so this is safe to call after
+ * any contribution is added or removed.
+ */
+export async function syncGoalProgress(goalId: string): Promise<void> {
+  const goal = await prisma.goal.findUnique({
+    where: { id: goalId },
+    include: { contributions: true, milestones: true },
+  });
+  if (!goal) return;
+
+  const currentAmount = goal.contributions.reduce(
+    (sum, c) => sum.plus(new Decimal(c.amount.toString())),
+    new Decimal(0)
+  );
+  const target = new Decimal(goal.targetAmount.toString());
+  const percentage = target.gt(0)
+    ? currentAmount.div(target).times(100).toNumber()
+    : 0;
+  const now = new Date();
+
+  for (const milestone of goal.milestones) {
+    const reached = percentage >= milestone.percentage;
+    if (reached && !milestone.reachedAt) {
+      await prisma.goalMilestone.update({
+        where: { id: milestone.id },
+        data: { reachedAt: now },
+      });
+    } else if (!reached && milestone.reachedAt) {
+      await prisma.goalMilestone.update({
+        where: { id: milestone.id },
+        data: { reachedAt: null, celebrated: false },
+      });
+    }
+  }
+
+  const isCompleted = percentage >= 100;
+  await prisma.goal.update({
+    where: { id: goalId },
+    data: {
+      currentAmount,
+      isCompleted,
+      completedAt: isCompleted ? goal.completedAt || now : null,
+    },
+  });
+}
+
+/**
+ * Record a contribution against a goal and update its progress.
+ */
+export async function addContribution(
+  goalId: string,
+  amount: Decimal,
+  options: { date?: Date; source?: string; note?: string | null } = {}
+): Promise<void> {
+  await prisma.goalContribution.create({
+    data: {
+      goalId,
+      amount,
+      date: options.date || new Date(),
+      source: options.source || "manual",
+      note: options.note || null,
+    },
+  });
+  await syncGoalProgress(goalId);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Fund a goal from an incoming linked transfer.
+ *
+ * The credit side of a transfer into a goal's linked account becomes a
+ * "transfer" contribution on the highest-priority goal for that account.
+ * Transfers dated before the goal was created are ignored so an opening
+ * balance isn't counted twice. Safe to call repeatedly for the same transaction.
+ */
+export async function recordTransferContribution(
+  transactionId: string
+): Promise<boolean> {
+  const tx = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+  });
+  if (!tx || tx.direction !== "credit" || !tx.linkedTransactionId) return false;
+
+  const existing = await prisma.goalContribution.findUnique({
+    where: { transactionId },
+  });
+  if (existing) return false;
+
+  const goals = await prisma.goal.findMany({
+    where: { accountId: tx.accountId },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  });
+  const goal = goals.find((g) => tx.date >= startOfDay(g.createdAt));
+  if (!goal) return false;
+
+  await prisma.goalContribution.create({
+    data: {
+      goalId: goal.id,
+      amount: new Decimal(tx.amount.toString()).abs(),
+      date: tx.date,
+      source: "transfer",
+      note: tx.cleanDescription || tx.description,
+      transactionId,
+    },
+  });
+  await syncGoalProgress(goal.id);
+  return true;
+}
+
+/**
+ * Roll back transfer contributions for the given transactions (e.g. when
+ * the transfer is unlinked or about to be re-detected).
+ */
+export async function removeTransferContributions(
+  transactionIds: string[]
+): Promise<number> {
+  if (transactionIds.length === 0) return 0;
+
+  const contributions = await prisma.goalContribution.findMany({
+    where: { transactionId: { in: transactionIds } },
+    select: { id: true, goalId: true },
+  });
+  if (contributions.length === 0) return 0;
+
+  await prisma.goalContribution.deleteMany({
+    where: { id: { in: contributions.map((c) => c.id) } },
+  });
+
+  const goalIds = [...new Set(contributions.map((c) => c.goalId))];
+  for (const goalId of goalIds) {
+    await syncGoalProgress(goalId);
+  }
+  return contributions.length;
+}
+
+/**
+ * Re-fund a goal from its linked account's existing transfers. Called when
+ * a goal is linked to (or moved to) an account.
+ */
+export async function refundGoalFromTransfers(goalId: string): Promise<void> {
+  const goal = await prisma.goal.findUnique({ where: { id: goalId } });
+  if (!goal) return;
+
+  await prisma.goalContribution.deleteMany({
+    where: { goalId, source: "transfer" },
+  });
+  await syncGoalProgress(goalId);
+  if (!goal.accountId) return;
+
+  const transfers = await prisma.transaction.findMany({
+    where: {
+      accountId: goal.accountId,
+      direction: "credit",
+      isTransfer: true,
+      linkedTransactionId: { not: null },
+      date: { gte: startOfDay(goal.createdAt) },
+    },
+    select: { id: true },
+    orderBy: { date: "asc" },
+  });
+  for (const tx of transfers) {
+    await recordTransferContribution(tx.id);
+  }
+}
+
+/**
+ * Project when a goal will be reached based on the contribution rate over
+ * the last 90 days. Returns null if there's nothing left to save or no
+ * recent positive contributions to extrapolate from.
+ */
+export function projectCompletionDate(
+  currentAmount: Decimal,
+  targetAmount: Decimal,
+  contributions: { amount: Decimal | { toString(): string }; date: Date }[]
+): Date | null {
+  const remaining = targetAmount.minus(currentAmount);
+  if (remaining.lte(0)) return null;
+
+  const windowStart = new Date(
+    Date.now() - PROJECTION_WINDOW_DAYS * 24 * 60 * 60 * 1000
+  );
+  const recentTotal = contributions
+    .filter((c) => c.date >= windowStart)
+    .reduce(
+      (sum, c) => sum.plus(new Decimal(c.amount.toString())),
+      new Decimal(0)
+    );
+  if (recentTotal.lte(0)) return null;
+
+  const perDay = recentTotal.div(PROJECTION_WINDOW_DAYS);
+  const daysToGo = remaining.div(perDay).ceil().toNumber();
+  return new Date(Date.now() + daysToGo * 24 * 60 * 60 * 1000);
+}
+
+type GoalWithRelations = Prisma.GoalGetPayload<{
+  include: { contributions: true; milestones: true };
+}>;
+
+/**
+ * Shape a goal (with contributions and milestones loaded) for the API.
+ */
+export function toGoalItem(goal: GoalWithRelations): GoalItem {
+  const current = new Decimal(goal.currentAmount.toString());
+  const target = new Decimal(goal.targetAmount.toString());
+  const projected = projectCompletionDate(current, target, goal.contributions);
+
+  return {
+    id: goal.id,
+    name: goal.name,
+    targetAmount: decimalToNumber(goal.targetAmount),
+    currentAmount: decimalToNumber(goal.currentAmount),
+    percentage: target.gt(0) ? current.div(target).times(100).toNumber() : 0,
+    targetDate: goal.targetDate?.toISOString() || null,
+    projectedDate: projected?.toISOString() || null,
+    horizon: goal.horizon,
+    priority: goal.priority,
+    icon: goal.icon,
+    colour: goal.colour,
+    accountId: goal.accountId,
+    isCompleted: goal.isCompleted,
+    completedAt: goal.completedAt?.toISOString() || null,
+    milestones: [...goal.milestones]
+      .sort((a, b) => a.percentage - b.percentage)
+      .map((m) => ({
+        id: m.id,
+        percentage: m.percentage,
+        reachedAt: m.reachedAt?.toISOString() || null,
+        celebrated: m.celebrated,
+      })),
+    recentContributions: [...goal.contributions]
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .slice(0, 5)
+      .map((c) => ({
+        id: c.id,
+        amount: decimalToNumber(c.amount),
+        date: c.date.toISOString(),
+        source: c.source,
+        note: c.note,
+      })),
+  };
+}
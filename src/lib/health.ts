@@ -0,0 +1,225 @@
+import { prisma } from "./db";
+import { getBudgetActuals, isUnderBudget } from "./budgets";
+import type { PeriodRange } from "./periods";
+import { decimalToNumber } from "@/types";
+import type {
+  BudgetVsActual,
+  HealthComponentKey,
+  HealthScore,
+  HealthScoreComponent,
+  PeriodSummary,
+  PeriodType,
+} from "@/types";
+import Decimal from "decimal.js";
+
+export const HEALTH_WEIGHTS: Record<HealthComponentKey, number> = {
+  budgetAdherence: 0.3,
+  savingsRate: 0.25,
+  goalProgress: 0.2,
+  emergencyFund: 0.15,
+  consistency: 0.1,
+};
+
+// A 20% savings rate, 3 months of expenses in savings and 6 periods in a
+// row under budget each earn full marks
+const TARGET_SAVINGS_RATE = 0.2;
+const TARGET_EMERGENCY_MONTHS = 3;
+const TARGET_STREAK = 6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const clamp = (n: number) => Math.max(0, Math.min(100, Math.round(n)));
+const dollars = (n: number) =>
+  `$${Math.round(n).toLocaleString("en-AU")}`;
+
+function budgetAdherence(actuals: BudgetVsActual[]): HealthScoreComponent {
+  const budgeted = actuals.filter((a) => a.budgetAmount > 0);
+  if (budgeted.length === 0) {
+    return component("budgetAdherence", "Budget adherence", 50,
+      "No budgets set yet — add budgets to score spending against them.");
+  }
+
+  // Within budget scores 100, then lose 2 points per percent over
+  const total = budgeted.reduce(
+    (sum, a) =>
+      sum + (a.percentage <= 100 ? 100 : Math.max(0, 100 - (a.percentage - 100) * 2)),
+    0
+  );
+  const within = budgeted.filter((a) => a.percentage <= 100).length;
+  const worst = [...budgeted].sort((a, b) => b.percentage - a.percentage)[0];
+
+  let explanation = `${within} of ${budgeted.length} budgeted categories are within budget.`;
+  if (worst.percentage > 100) {
+    explanation += ` ${worst.categoryName} is furthest over at ${Math.round(worst.percentage)}%.`;
+  }
+
+  return component("budgetAdherence", "Budget adherence", total / budgeted.length, explanation);
+}
+
+function savingsRate(summary: PeriodSummary): HealthScoreComponent {
+  if (summary.totalIncome <= 0) {
+    return component("savingsRate", "Savings rate", 0,
+      "No income recorded for this period.");
+  }
+
+  const rate = summary.net / summary.totalIncome;
+  return component(
+    "savingsRate",
+    "Savings rate",
+    (rate / TARGET_SAVINGS_RATE) * 100,
+    `Kept ${Math.round(rate * 100)}% of ${dollars(summary.totalIncome)} income (target ${TARGET_SAVINGS_RATE * 100}%).`
+  );
+}
+
+async function goalProgress(asOf: Date): Promise<HealthScoreComponent> {
+  const goals = await prisma.goal.findMany();
+  if (goals.length === 0) {
+    return component("goalProgress", "Goal progress", 50,
+      "No savings goals yet — add one to track progress.");
+  }
+
+  // Each goal scores how far along it is against where it should be by now.
+  // Goals without a target date score their raw percentage.
+  let onTrack = 0;
+  const total = goals.reduce((sum, g) => {
+    const target = decimalToNumber(g.targetAmount);
+    const pct = g.isCompleted || target <= 0
+      ? 100
+      : (decimalToNumber(g.currentAmount) / target) * 100;
+
+    let score = pct;
+    if (!g.isCompleted && g.targetDate) {
+      const span = g.targetDate.getTime() - g.createdAt.getTime();
+      const elapsed = asOf.getTime() - g.createdAt.getTime();
+      const expected = span > 0 ? Math.min(100, (elapsed / span) * 100) : 100;
+      score = expected > 0 ? (pct / expected) * 100 : 100;
+    }
+
+    if (score >= 100) onTrack++;
+    return sum + Math.min(100, score);
+  }, 0);
+
+  return component(
+    "goalProgress",
+    "Goal progress",
+    total / goals.length,
+    `${onTrack} of ${goals.length} goals are on track or complete.`
+  );
+}
+
+async function emergencyFund(asOf: Date): Promise<HealthScoreComponent> {
+  const [savingsAccounts, spending] = await Promise.all([
+    prisma.account.findMany({
+      where: { type: "savings" },
+      select: { balance: true },
+    }),
+    prisma.transaction.findMany({
+      where: {
+        date: { gt: new Date(asOf.getTime() - 90 * DAY_MS), lte: asOf },
+        direction: "debit",
+        isExcluded: false,
+        isTransfer: false,
+      },
+      select: { amount: true },
+    }),
+  ]);
+
+  const savings = savingsAccounts.reduce(
+    (sum, a) => sum.plus(new Decimal(a.balance.toString())),
+    new Decimal(0)
+  );
+  const monthlyExpenses = spending
+    .reduce((sum, tx) => sum.plus(new Decimal(tx.amount.toString()).abs()), new Decimal(0))
+    .div(3);
+
+  if (monthlyExpenses.lte(0)) {
+    return component("emergencyFund", "Emergency fund", savings.gt(0) ? 100 : 0,
+      "No spending in the last 3 months to measure coverage against.");
+  }
+
+  const months = savings.div(monthlyExpenses).toNumber();
+  return component(
+    "emergencyFund",
+    "Emergency fund",
+    (months / TARGET_EMERGENCY_MONTHS) * 100,
+    `${dollars(savings.toNumber())} in savings covers ${months.toFixed(1)} months of expenses (target ${TARGET_EMERGENCY_MONTHS}).`
+  );
+}
+
+async function consistency(
+  periodType: PeriodType,
+  period: PeriodRange,
+  underBudgetNow: boolean
+): Promise<HealthScoreComponent> {
+  let streak = 0;
+  if (underBudgetNow) {
+    streak = 1;
+    const previous = await prisma.periodSnapshot.findMany({
+      where: { periodType, periodStart: { lt: period.start } },
+      orderBy: { periodStart: "desc" },
+      select: { wasUnderBudget: true },
+    });
+    for (const s of previous) {
+      if (!s.wasUnderBudget) break;
+      streak++;
+    }
+  }
+
+  const unit = periodType === "month" ? "month" : "fortnight";
+  return component(
+    "consistency",
+    "Consistency streak",
+    (streak / TARGET_STREAK) * 100,
+    streak > 0
+      ? `${streak} ${unit}${streak === 1 ? "" : "s"} in a row with every category under budget.`
+      : `Over budget in at least one category this ${unit}, so the streak is reset.`
+  );
+}
+
+function component(
+  key: HealthComponentKey,
+  label: string,
+  score: number,
+  explanation: string
+): HealthScoreComponent {
+  return { key, label, weight: HEALTH_WEIGHTS[key], score: clamp(score), explanation };
+}
+
+/**
+ * Deterministic 0-100 household health score for a period, built from
+ * weighted components. Balance-based components (goals, emergency fund)
+ * use current balances, so backfilled periods reflect today's position.
+ *
+ * Pass `budgetData` when the period's actuals have already been loaded for
+ * the same `periodType`, as closePeriod does, so a live score and the one
+ * frozen on the period's snapshot are measured against the same budgets.
+ */
+export async function computeHealthScore(
+  periodType: PeriodType,
+  period: PeriodRange,
+  budgetData?: { actuals: BudgetVsActual[]; summary: PeriodSummary }
+): Promise<HealthScore> {
+  const { actuals, summary } =
+    budgetData || (await getBudgetActuals(period.start, period.end, { periodType }));
+  const asOf = period.end < new Date() ? period.end : new Date();
+
+  const components = [
+    budgetAdherence(actuals),
+    savingsRate(summary),
+    await goalProgress(asOf),
+    await emergencyFund(asOf),
+    await consistency(periodType, period, isUnderBudget(actuals)),
+  ];
+
+  const score = clamp(
+    components.reduce((sum, c) => sum + c.score * c.weight, 0)
+  );
+
+  return {
+    score,
+    periodType,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    components,
+  };
+}
@@ -0,0 +1,439 @@
+import Papa from "papaparse";
+import Decimal from "decimal.js";
+import type {
+  ImportColumn,
+  ImportDateFormat,
+  ImportMapping,
+  ImportSign,
+} from "@/types";
+
+export type DateFormat = ImportDateFormat;
+
+// How a file expresses money in and out:
+//   signed   — one amount column, negative is money out
+//   inverted — one amount column, positive is money out (credit card style)
+//   split    — separate credit and debit columns
+export type SignConvention = ImportSign;
+
+export const DATE_FORMATS: DateFormat[] = ["DD/MM/YYYY", "YYYY-MM-DD", "DD MMM YY", "DD MMM YYYY"];
+export const SIGN_CONVENTIONS: SignConvention[] = ["signed", "inverted", "split"];
+const IMPORT_COLUMNS: ImportColumn[] = ["date", "description", "amount", "credit", "debit", "balance"];
+
+/**
+ * Which column holds each field. Headered profiles name columns by header
+ * text (case-insensitive); headerless profiles use zero-based positions.
+ */
+export interface ColumnMapping {
+  date: string | number;
+  description: string | number;
+  amount?: string | number;
+  credit?: string | number;
+  debit?: string | number;
+  balance?: string | number;
+}
+
+export interface ImportProfile {
+  id: string;
+  name: string;
+  hasHeader: boolean;
+  // Header cells that must all be present for auto-detection
+  detectHeaders?: string[];
+  // Exact column count for headerless auto-detection
+  columnCount?: number;
+  columns: ColumnMapping;
+  dateFormat: DateFormat;
+  sign: SignConvention;
+}
+
+export interface ParsedRow {
+  date: Date;
+  description: string;
+  amount: Decimal;
+  direction: string;
+  balance: Decimal | null;
+  // Bank-assigned transaction id (OFX FITID), stable across exports
+  fitId?: string;
+}
+
+export interface ParsedFile {
+  rows: ParsedRow[];
+  // Rows that were blank or couldn't be read
+  invalid: number;
+  // Closing balance stated by the file itself (OFX LEDGERBAL)
+  ledgerBalance?: { amount: Decimal; date: Date };
+}
+
+// Checked in order — the first profile that detects wins, so more specific
+// header sets come before looser ones.
+export const IMPORT_PROFILES: ImportProfile[] = [
+  {
+    id: "ing",
+    name: "ING",
+    hasHeader: true,
+    detectHeaders: ["Date", "Description", "Credit", "Debit"],
+    columns: {
+      date: "Date",
+      description: "Description",
+      credit: "Credit",
+      debit: "Debit",
+      balance: "Balance",
+    },
+    dateFormat: "DD/MM/YYYY",
+    sign: "split",
+  },
+  {
+    id: "westpac",
+    name: "Westpac",
+    hasHeader: true,
+    detectHeaders: ["Bank Account", "Date", "Narrative", "Debit Amount", "Credit Amount"],
+    columns: {
+      date: "Date",
+      description: "Narrative",
+      credit: "Credit Amount",
+      debit: "Debit Amount",
+      balance: "Balance",
+    },
+    dateFormat: "DD/MM/YYYY",
+    sign: "split",
+  },
+  {
+    id: "nab",
+    name: "NAB",
+    hasHeader: true,
+    detectHeaders: ["Date", "Amount", "Transaction Details"],
+    columns: {
+      date: "Date",
+      description: "Transaction Details",
+      amount: "Amount",
+      balance: "Balance",
+    },
+    dateFormat: "DD MMM YY",
+    sign: "signed",
+  },
+  {
+    id: "macquarie",
+    name: "Macquarie",
+    hasHeader: true,
+    detectHeaders: ["Transaction Date", "Details", "Debit", "Credit"],
+    columns: {
+      date: "Transaction Date",
+      description: "Details",
+      credit: "Credit",
+      debit: "Debit",
+      balance: "Balance",
+    },
+    dateFormat: "DD MMM YYYY",
+    sign: "split",
+  },
+  {
+    id: "up",
+    name: "Up",
+    hasHeader: true,
+    detectHeaders: ["Time", "Description", "Total (AUD)"],
+    columns: {
+      date: "Time",
+      description: "Description",
+      amount: "Total (AUD)",
+    },
+    dateFormat: "YYYY-MM-DD",
+    sign: "signed",
+  },
+  {
+    id: "generic",
+    name: "Generic (Date, Description, Amount)",
+    hasHeader: true,
+    detectHeaders: ["Date", "Description", "Amount"],
+    columns: {
+      date: "Date",
+      description: "Description",
+      amount: "Amount",
+      balance: "Balance",
+    },
+    dateFormat: "DD/MM/YYYY",
+    sign: "signed",
+  },
+  {
+    // Date, Amount, Description, Balance
+    id: "cba",
+    name: "CommBank",
+    hasHeader: false,
+    columnCount: 4,
+    columns: { date: 0, amount: 1, description: 2, balance: 3 },
+    dateFormat: "DD/MM/YYYY",
+    sign: "signed",
+  },
+  {
+    // Date, Amount, Description
+    id: "anz",
+    name: "ANZ",
+    hasHeader: false,
+    columnCount: 3,
+    columns: { date: 0, amount: 1, description: 2 },
+    dateFormat: "DD/MM/YYYY",
+    sign: "signed",
+  },
+];
+
+export function getImportProfile(id: string): ImportProfile | undefined {
+  return IMPORT_PROFILES.find((p) => p.id === id);
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Parse a date cell in the given format. Only the leading date is read, so
+ * timestamps like "2026-03-14 09:12" work. Returns null if unreadable.
+ */
+export function parseDate(value: string, format: DateFormat): Date | null {
+  const text = value.trim();
+  let day: number;
+  let month: number;
+  let year: number;
+
+  if (format === "DD/MM/YYYY") {
+    const m = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+    if (!m) return null;
+    [day, month, year] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else if (format === "YYYY-MM-DD") {
+    const m = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (!m) return null;
+    [year, month, day] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  } else {
+    const m = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3})[A-Za-z]*[\s-](\d{2,4})/);
+    if (!m) return null;
+    day = Number(m[1]);
+    month = MONTHS.indexOf(m[2].toLowerCase()) + 1;
+    year = Number(m[3]);
+    if (month === 0) return null;
+  }
+
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return new Date(year, month - 1, day);
+}
+
+export function parseMoney(value: string | undefined): Decimal | null {
+  const text = value?.replace(/[,$\s]/g, "");
+  if (!text) return null;
+  try {
+    return new Decimal(text);
+  } catch {
+    return null;
+  }
+}
+
+export function readCsv(text: string): string[][] {
+  const { data } = Papa.parse<string[]>(text, {
+    header: false,
+    skipEmptyLines: true,
+  });
+  return data.map((row) => row.map((cell) => (cell ?? "").trim()));
+}
+
+const normalise = (s: string) => s.trim().toLowerCase();
+
+export function profileMatches(profile: ImportProfile, firstRow: string[]): boolean {
+  if (profile.hasHeader) {
+    const headers = new Set(firstRow.map(normalise));
+    return (profile.detectHeaders || []).every((h) => headers.has(normalise(h)));
+  }
+  if (profile.columnCount && firstRow.length !== profile.columnCount) return false;
+  // Headerless files start straight into data, so the first cell must be a date
+  const dateColumn = profile.columns.date as number;
+  return parseDate(firstRow[dateColumn] || "", profile.dateFormat) !== null;
+}
+
+/**
+ * Work out which bank a CSV came from by its header row, or by the shape of
+ * its first row for banks that export without headers.
+ */
+export function detectImportProfile(text: string): ImportProfile | null {
+  const [firstRow] = readCsv(text);
+  if (!firstRow) return null;
+  return IMPORT_PROFILES.find((p) => profileMatches(p, firstRow)) || null;
+}
+
+/**
+ * Parse a CSV with the given profile into normalised rows. Amounts are
+ * positive with a separate direction, matching how transactions are stored.
+ */
+export function parseWithProfile(text: string, profile: ImportProfile): ParsedFile {
+  const data = readCsv(text);
+  const header = profile.hasHeader ? (data.shift() || []).map(normalise) : [];
+
+  const indexOf = (column: string | number | undefined): number => {
+    if (column === undefined) return -1;
+    return typeof column === "number" ? column : header.indexOf(normalise(column));
+  };
+  const col = {
+    date: indexOf(profile.columns.date),
+    description: indexOf(profile.columns.description),
+    amount: indexOf(profile.columns.amount),
+    credit: indexOf(profile.columns.credit),
+    debit: indexOf(profile.columns.debit),
+    balance: indexOf(profile.columns.balance),
+  };
+  const cell = (row: string[], i: number) => (i >= 0 ? row[i] : undefined);
+
+  const rows: ParsedRow[] = [];
+  let invalid = 0;
+
+  for (const row of data) {
+    const date = parseDate(cell(row, col.date) || "", profile.dateFormat);
+    const description = cell(row, col.description);
+    if (!date || !description) {
+      invalid++;
+      continue;
+    }
+
+    let amount: Decimal | null;
+    let direction: string;
+
+    if (profile.sign === "split") {
+      const credit = parseMoney(cell(row, col.credit));
+      if (credit && !credit.isZero()) {
+        amount = credit.abs();
+        direction = "credit";
+      } else {
+        amount = parseMoney(cell(row, col.debit))?.abs() ?? null;
+        direction = "debit";
+      }
+    } else {
+      const value = parseMoney(cell(row, col.amount));
+      amount = value?.abs() ?? null;
+      const outgoing = profile.sign === "signed" ? value?.isNegative() : value?.isPositive();
+      direction = outgoing ? "debit" : "credit";
+    }
+
+    if (!amount) {
+      invalid++;
+      continue;
+    }
+
+    rows.push({
+      date,
+      description,
+      amount,
+      direction,
+      balance: parseMoney(cell(row, col.balance)),
+    });
+  }
+
+  return { rows, invalid };
+}
+
+/**
+ * Validate a column mapping sent by the import wizard.
+ */
+export function parseMapping(value: unknown): { mapping: ImportMapping } | { error: string } {
+  let raw: Partial<ImportMapping> | null;
+  try {
+    raw = typeof value === "string" ? JSON.parse(value) : (value as Partial<ImportMapping>);
+  } catch {
+    return { error: "Invalid column mapping" };
+  }
+  if (!raw || typeof raw !== "object" || !raw.columns) {
+    return { error: "Column mapping required" };
+  }
+
+  const columns: ImportMapping["columns"] = {};
+  for (const key of IMPORT_COLUMNS) {
+    const index = raw.columns[key];
+    if (index === undefined || index === null) continue;
+    if (!Number.isInteger(index) || index < 0) {
+      return { error: `Invalid column for ${key}` };
+    }
+    columns[key] = index;
+  }
+
+  const dateFormat = raw.dateFormat as DateFormat;
+  const sign = raw.sign as SignConvention;
+  if (!DATE_FORMATS.includes(dateFormat)) {
+    return { error: "Unknown date format" };
+  }
+  if (!SIGN_CONVENTIONS.includes(sign)) {
+    return { error: "Unknown sign convention" };
+  }
+  if (columns.date === undefined || columns.description === undefined) {
+    return { error: "Map the date and description columns" };
+  }
+  if (sign === "split" ? columns.credit === undefined && columns.debit === undefined : columns.amount === undefined) {
+    return {
+      error: sign === "split" ? "Map the credit or debit column" : "Map the amount column",
+    };
+  }
+
+  return { mapping: { hasHeader: Boolean(raw.hasHeader), columns, dateFormat, sign } };
+}
+
+/**
+ * Turn a wizard mapping into a profile that can be saved against an account.
+ * Headered files are recognised again by their mapped header cells;
+ * headerless ones by column count.
+ */
+export function profileFromMapping(mapping: ImportMapping, firstRow: string[]): ImportProfile {
+  const mapped = Object.values(mapping.columns) as number[];
+  return {
+    id: "template",
+    name: "Saved template",
+    hasHeader: mapping.hasHeader,
+    ...(mapping.hasHeader
+      ? { detectHeaders: mapped.map((i) => firstRow[i]).filter(Boolean) }
+      : { columnCount: firstRow.length }),
+    columns: { ...mapping.columns } as ColumnMapping,
+    dateFormat: mapping.dateFormat,
+    sign: mapping.sign,
+  };
+}
+
+/**
+ * Express a profile as column positions in this file, so the wizard can show
+ * and edit it.
+ */
+export function mappingFromProfile(profile: ImportProfile, firstRow: string[]): ImportMapping {
+  const header = firstRow.map(normalise);
+  const columns: ImportMapping["columns"] = {};
+  for (const key of IMPORT_COLUMNS) {
+    const column = profile.columns[key];
+    if (column === undefined) continue;
+    const index = typeof column === "number" ? column : header.indexOf(normalise(column));
+    if (index >= 0) columns[key] = index;
+  }
+  return {
+    hasHeader: profile.hasHeader,
+    columns,
+    dateFormat: profile.dateFormat,
+    sign: profile.sign,
+  };
+}
+
+/**
+ * An account's saved import template, if it has one.
+ */
+export function parseTemplate(json: string | null): ImportProfile | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as ImportProfile;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pick the profile to read a CSV with: an explicit bank profile or wizard
+ * mapping first, then the account's saved template if the file still looks
+ * the same, then auto-detection.
+ */
+export function chooseCsvProfile(
+  text: string,
+  options: { profileId?: string | null; mapping?: ImportMapping | null; template?: ImportProfile | null }
+): ImportProfile | null {
+  const [firstRow = []] = readCsv(text);
+
+  if (options.profileId) return getImportProfile(options.profileId) || null;
+  if (options.mapping) return profileFromMapping(options.mapping, firstRow);
+  if (options.template && profileMatches(options.template, firstRow)) {
+    return options.template;
+  }
+  return detectImportProfile(text);
+}
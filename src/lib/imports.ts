@@ -0,0 +1,464 @@
+import { createHash } from "crypto";
+import { prisma } from "./db";
+import { removeTransferContributions } from "./goals";
+import { recordAudit, TRANSACTION_AUDIT_FIELDS } from "./audit";
+import { categoriseWithAI } from "./categories";
+import { loadRuleIndex, ruleSetFields, ruleUpdateData } from "./rules";
+import { ownerAttribution } from "./members";
+import { detectTransfers } from "./transfers";
+import { closeEndedPeriods } from "./snapshots";
+import { evaluateAchievements } from "./achievements";
+import { parseTemplate } from "./import-profiles";
+import { readStatement } from "./statements";
+import { checkDuplicate, fingerprintRows, occurrences } from "./dedupe";
+import type { JobContext } from "./jobs";
+import { decimalToNumber } from "@/types";
+import type { ImportBatchItem, ImportMapping } from "@/types";
+import type { ImportBatch } from "@prisma/client";
+import Decimal from "decimal.js";
+
+export function hashFile(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export interface ImportJobPayload {
+  accountId: string;
+  fileName: string;
+  text: string;
+  profileId: string | null;
+  mapping: ImportMapping | null;
+  saveTemplate: boolean;
+  userId: string | null;
+}
+
+/**
+ * Import a statement into an account, recorded as an ImportBatch:
+ * rule categorisation and dedupe per row, then an AI pass over anything
+ * uncategorised, transfer linking, and period close. Runs as a background
+ * job; see jobs.ts.
+ */
+export async function runImport(
+  input: ImportJobPayload,
+  ctx: JobContext
+): Promise<Record<string, unknown>> {
+  const { accountId } = input;
+  const account = await prisma.account.findUnique({ where: { id: accountId } });
+  if (!account) throw new Error("Account not found");
+
+  const statement = readStatement(input.fileName, input.text, {
+    profileId: input.profileId,
+    mapping: input.mapping,
+    template: parseTemplate(account.importTemplate),
+  });
+  if ("error" in statement) throw new Error(statement.error);
+  const { format, source, profile, parsed } = statement;
+  const text = input.text;
+
+  // Remember a wizard mapping so this account's next file imports directly
+  if (input.mapping && input.saveTemplate && profile) {
+    await prisma.account.update({
+      where: { id: accountId },
+      data: { importTemplate: JSON.stringify(profile) },
+    });
+  }
+
+  const { rows, invalid, ledgerBalance } = parsed;
+
+  const batch = await prisma.importBatch.create({
+    data: {
+      accountId,
+      userId: input.userId,
+      jobId: ctx.jobId,
+      fileName: input.fileName,
+      fileHash: hashFile(text),
+      format,
+      source,
+    },
+  });
+
+  let imported = 0;
+  let skipped = 0;
+  let ruleMatched = 0;
+  let flagged = 0;
+  const newTransactionIds: string[] = [];
+  let latestBalance: Decimal | null = null;
+  let latestBalanceDate: Date | null = null;
+
+  // Compile rules once for the whole file
+  const ruleIndex = await loadRuleIndex();
+
+  const fingerprints = fingerprintRows(accountId, rows);
+  const rowOccurrences = occurrences(rows);
+  const createdIds = new Set<string>();
+
+  for (const [i, row] of rows.entries()) {
+    const { date, description, amount, direction, fitId } = row;
+    const fingerprint = fingerprints[i];
+
+    if (i % 25 === 0) {
+      await ctx.progress((i / rows.length) * 50, `Importing row ${i + 1} of ${rows.length}`, {
+        rows: i,
+        skipped,
+        flagged,
+        rulesApplied: ruleMatched,
+      });
+    }
+
+    // Track the most recent Balance from the CSV (if column exists)
+    if (row.balance !== null) {
+      if (latestBalanceDate === null || date >= latestBalanceDate) {
+        latestBalance = row.balance;
+        latestBalanceDate = date;
+      }
+    }
+
+    // Check for duplicate. OFX rows carry the bank's own id; everything
+    // else is matched by fingerprint, with near-misses flagged for review.
+    let possibleDuplicateOf: string | null = null;
+    if (fitId) {
+      const existing = await prisma.transaction.findFirst({
+        where: { accountId, fitId },
+        select: { id: true },
+      });
+      if (existing) {
+        skipped++;
+        continue;
+      }
+    } else {
+      const check = await checkDuplicate(
+        accountId,
+        row,
+        fingerprint,
+        rowOccurrences[i],
+        createdIds
+      );
+      if (check.status === "duplicate") {
+        skipped++;
+        continue;
+      }
+      possibleDuplicateOf = check.possibleDuplicateOf;
+    }
+
+    // Quick rule-based categorisation (instant, no API call)
+    const ruleMatch = ruleIndex.match({
+      description,
+      amount,
+      direction,
+      accountId,
+      date,
+    });
+
+    const tx = await prisma.transaction.create({
+      data: {
+        accountId,
+        importBatchId: batch.id,
+        fitId,
+        fingerprint,
+        date,
+        description,
+        amount,
+        direction,
+        runningBalance: row.balance,
+        duplicateOfId: possibleDuplicateOf,
+        categorySource: null,
+        ...ownerAttribution(account.ownerId),
+        ...(ruleMatch && ruleUpdateData(ruleMatch.ruleId, ruleMatch.actions)),
+      },
+    });
+    newTransactionIds.push(tx.id);
+    createdIds.add(tx.id);
+    imported++;
+    if (ruleMatch) ruleMatched++;
+    if (possibleDuplicateOf) flagged++;
+  }
+  await ruleIndex.flushHits();
+  const rowStats = { rows: rows.length, skipped, flagged, rulesApplied: ruleMatched };
+  await ctx.progress(50, `Imported ${imported} of ${rows.length} rows`, rowStats);
+
+  // An OFX statement's own ledger balance beats any running balance
+  if (ledgerBalance) {
+    latestBalance = ledgerBalance.amount;
+    latestBalanceDate = ledgerBalance.date;
+  }
+
+  // Update account balance from the CSV Balance column or OFX LEDGERBAL
+  if (latestBalance !== null) {
+    await prisma.account.update({
+      where: { id: accountId },
+      data: { balance: latestBalance, lastUpdated: latestBalanceDate || new Date() },
+    });
+    await prisma.importBatch.update({
+      where: { id: batch.id },
+      data: { balanceBefore: account.balance, balanceAfter: latestBalance },
+    });
+  }
+  // If no Balance column in CSV, don't attempt to calculate — let the user
+  // set it manually in Settings. Summing credits-debits is wrong because
+  // we only have a window of transaction history, not the full account life.
+
+  // --- Phase 2: AI batch categorisation for all uncategorised transactions ---
+  let aiCategorised = 0;
+  let aiTransfers = 0;
+
+  if (newTransactionIds.length > 0 && process.env.ANTHROPIC_API_KEY) {
+    // Get ALL uncategorised transactions (not just new ones) for better context
+    const uncategorised = await prisma.transaction.findMany({
+      where: {
+        OR: [
+          { categoryId: null },
+          { categorySource: null },
+        ],
+      },
+      include: {
+        account: { select: { name: true, type: true } },
+      },
+    });
+
+    // Also get previously categorised new transactions for transfer detection
+    const newButCategorised = await prisma.transaction.findMany({
+      where: {
+        id: { in: newTransactionIds },
+        categoryId: { not: null },
+        categorySource: "rule",
+      },
+      include: {
+        account: { select: { name: true, type: true } },
+      },
+    });
+
+    // Combine: uncategorised + newly imported (for transfer detection context)
+    const allForAI = [...uncategorised, ...newButCategorised];
+
+    // Deduplicate by id
+    const uniqueForAI = [...new Map(allForAI.map((t) => [t.id, t])).values()];
+
+    if (uniqueForAI.length > 0) {
+      // Get all accounts for context
+      const allAccounts = await prisma.account.findMany({
+        select: { name: true, type: true },
+      });
+
+      // Batch in chunks of 50 to stay within token limits
+      const BATCH_SIZE = 50;
+      for (let i = 0; i < uniqueForAI.length; i += BATCH_SIZE) {
+        const batch = uniqueForAI.slice(i, i + BATCH_SIZE);
+        const aiBatches = Math.ceil(uniqueForAI.length / BATCH_SIZE);
+        await ctx.progress(
+          50 + (i / uniqueForAI.length) * 35,
+          `AI categorisation batch ${i / BATCH_SIZE + 1} of ${aiBatches}`,
+          { ...rowStats, aiBatch: i / BATCH_SIZE + 1, aiBatches, aiCategorised }
+        );
+
+        const aiInput = batch.map((tx) => ({
+          id: tx.id,
+          description: tx.description,
+          amount: tx.amount.toString(),
+          direction: tx.direction,
+          accountName: tx.account.name,
+          accountType: tx.account.type,
+          date: tx.date.toISOString().split("T")[0],
+        }));
+
+        const aiResults = await categoriseWithAI(aiInput, allAccounts);
+
+        // Apply AI results
+        for (const [txId, result] of Object.entries(aiResults)) {
+          const existingTx = batch.find((t) => t.id === txId);
+          if (!existingTx) continue;
+
+          const updateData: Record<string, unknown> = {};
+          const ruleSet = ruleSetFields(existingTx);
+
+          // Only update category if not already set by a rule
+          if (!existingTx.categoryId || existingTx.categorySource !== "rule") {
+            updateData.categoryId = result.categoryId;
+            updateData.categorySource = "ai";
+            aiCategorised++;
+          }
+
+          // Transfer flag and clean description from AI, unless a rule set them
+          if (result.isTransfer && !ruleSet.has("isTransfer")) {
+            updateData.isTransfer = true;
+            aiTransfers++;
+          }
+
+          if (result.cleanDescription && !ruleSet.has("cleanDescription")) {
+            updateData.cleanDescription = result.cleanDescription;
+          }
+
+          if (Object.keys(updateData).length > 0) {
+            await prisma.transaction.update({
+              where: { id: txId },
+              data: updateData,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // --- Phase 3: Cross-account transfer linking (pattern + amount matching) ---
+  await ctx.progress(85, "Linking transfers", { ...rowStats, aiCategorised });
+  const linkedTransfers = await detectTransfers(accountId);
+  await ctx.progress(95, "Finishing up", { ...rowStats, aiCategorised, linkedTransfers });
+
+  await prisma.importBatch.update({
+    where: { id: batch.id },
+    data: { imported, skipped, invalid, linkedTransfers },
+  });
+
+  // --- Phase 4: Snapshot any fortnight or month that has ended ---
+  try {
+    await closeEndedPeriods();
+  } catch (err) {
+    console.error("Period close error:", err);
+  }
+
+  // --- Phase 5: Award any badges this import unlocked ---
+  try {
+    await evaluateAchievements();
+  } catch (err) {
+    console.error("Achievement evaluation error:", err);
+  }
+
+  return {
+    message: `${source}: imported ${imported} transactions, skipped ${skipped} duplicates${invalid ? ` and ${invalid} unreadable rows` : ""}${flagged ? `, flagged ${flagged} possible duplicates for review` : ""}. Rules matched ${ruleMatched}, AI categorised ${aiCategorised}, detected ${aiTransfers} transfers, linked ${linkedTransfers} cross-account transfers.`,
+    format,
+    batchId: batch.id,
+    imported,
+    skipped,
+    invalid,
+    flagged,
+    ruleMatched,
+    aiCategorised,
+    aiTransfers,
+    linkedTransfers,
+  };
+}
+
+export interface RollbackResult {
+  removed: number;
+  unlinked: number;
+  balanceRestored: boolean;
+}
+
+/**
+ * Undo an import: delete every transaction it created, unlink any transfer
+ * pairs those transactions were part of (rolling back goal funding), and put
+ * the account balance back if nothing has changed it since. Every deleted
+ * or unlinked transaction is audited as `userId`.
+ * Returns null if the batch doesn't exist or was already rolled back.
+ */
+export async function rollbackImportBatch(
+  batchId: string,
+  userId: string | null
+): Promise<RollbackResult | null> {
+  const batch = await prisma.importBatch.findUnique({ where: { id: batchId } });
+  if (!batch || batch.rolledBackAt) return null;
+
+  const transactions = await prisma.transaction.findMany({
+    where: { importBatchId: batchId },
+  });
+  const ids = transactions.map((t) => t.id);
+
+  // The other side of every transfer pair this batch is part of, and rows
+  // flagged as possible duplicates of its rows. Rows inside the batch are
+  // deleted with it.
+  const partners = await prisma.transaction.findMany({
+    where: { linkedTransactionId: { in: ids }, id: { notIn: ids } },
+  });
+  const partnerIds = partners.map((t) => t.id);
+  const duplicates = await prisma.transaction.findMany({
+    where: { duplicateOfId: { in: ids }, id: { notIn: ids } },
+  });
+
+  // Audit before deleting, while category names can still be looked up
+  await recordAudit(userId, TRANSACTION_AUDIT_FIELDS, [
+    ...partners.map((tx) => ({
+      entityType: "transaction" as const,
+      entityId: tx.id,
+      action: "import-rollback",
+      before: tx,
+      after: {
+        ...tx,
+        isTransfer: false,
+        linkedTransactionId: null,
+        ...(tx.categorySource === "auto" && { categoryId: null }),
+      },
+    })),
+    ...duplicates.map((tx) => ({
+      entityType: "transaction" as const,
+      entityId: tx.id,
+      action: "import-rollback",
+      before: tx,
+      after: { ...tx, duplicateOfId: null },
+    })),
+    ...transactions.map((tx) => ({
+      entityType: "transaction" as const,
+      entityId: tx.id,
+      action: "import-rollback",
+      before: tx,
+      after: null,
+    })),
+  ]);
+
+  await removeTransferContributions([...ids, ...partnerIds]);
+  await prisma.transaction.updateMany({
+    where: { id: { in: partnerIds } },
+    data: { isTransfer: false, linkedTransactionId: null },
+  });
+  // Drop the transfer category detectTransfers gave them, so they're
+  // categorised afresh; categories set by hand or by rules are kept
+  await prisma.transaction.updateMany({
+    where: { id: { in: partnerIds }, categorySource: "auto" },
+    data: { categoryId: null, categorySource: null, ruleId: null },
+  });
+  await prisma.transaction.updateMany({
+    where: { duplicateOfId: { in: ids } },
+    data: { duplicateOfId: null },
+  });
+  await prisma.transaction.deleteMany({ where: { importBatchId: batchId } });
+
+  // Only restore the balance if a later import or sync hasn't moved it on
+  let balanceRestored = false;
+  if (batch.balanceBefore !== null && batch.balanceAfter !== null) {
+    const account = await prisma.account.findUnique({ where: { id: batch.accountId } });
+    if (account && account.balance.equals(batch.balanceAfter)) {
+      await prisma.account.update({
+        where: { id: account.id },
+        data: { balance: batch.balanceBefore },
+      });
+      balanceRestored = true;
+    }
+  }
+
+  await prisma.importBatch.update({
+    where: { id: batchId },
+    data: { rolledBackAt: new Date() },
+  });
+
+  return { removed: ids.length, unlinked: partnerIds.length, balanceRestored };
+}
+
+export function toImportBatchItem(
+  batch: ImportBatch,
+  accountName: string | null,
+  userName: string | null
+): ImportBatchItem {
+  return {
+    id: batch.id,
+    accountId: batch.accountId,
+    accountName,
+    userName,
+    fileName: batch.fileName,
+    format: batch.format,
+    source: batch.source,
+    imported: batch.imported,
+    skipped: batch.skipped,
+    invalid: batch.invalid,
+    linkedTransfers: batch.linkedTransfers,
+    balanceAfter: batch.balanceAfter !== null ? decimalToNumber(batch.balanceAfter) : null,
+    rolledBackAt: batch.rolledBackAt?.toISOString() || null,
+    createdAt: batch.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,277 @@
+import { prisma } from "./db";
+import { runImport } from "./imports";
+import { recategoriseAll } from "./categories";
+import { syncConnections } from "./sync";
+import type { Job } from "@prisma/client";
+import type { JobItem, JobStats } from "@/types";
+
+/**
+ * A small persistent job queue backed by the Job table. Work runs in the
+ * app's own process, one job at a time; the table lets progress survive
+ * page reloads and lets interrupted jobs pick up again after a restart.
+ */
+
+export type JobType = "import" | "recategorise" | "sync";
+
+export interface JobContext {
+  jobId: string;
+  attempt: number;
+  /**
+   * Record progress (0-100), an optional status line and running counts for
+   * the UI (rows parsed, duplicates skipped...). Throws JobCancelledError if
+   * the job has been cancelled, so long-running handlers stop at their next
+   * checkpoint.
+   */
+  progress(percent: number, message?: string, stats?: JobStats): Promise<void>;
+}
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job cancelled");
+  }
+}
+
+type JobHandler = (
+  payload: never,
+  ctx: JobContext
+) => Promise<Record<string, unknown>>;
+
+const HANDLERS: Record<JobType, JobHandler> = {
+  import: runImport,
+  recategorise: recategoriseAll,
+  sync: syncConnections,
+};
+
+// Imports aren't re-run automatically: a half-finished batch is better
+// rolled back by hand than imported twice
+const MAX_ATTEMPTS: Record<JobType, number> = {
+  import: 1,
+  recategorise: 3,
+  sync: 3,
+};
+
+// Retry after 10s, 20s, 40s...
+const RETRY_BASE_MS = 10_000;
+
+// Finished jobs keep their status and result, but not their payload (an
+// import's is the whole file)
+const CLEARED_PAYLOAD = "{}";
+
+const globalForJobs = globalThis as unknown as {
+  jobWorker: Promise<void> | undefined;
+  jobWorkerRecovered: boolean | undefined;
+  jobWakeTimer: ReturnType<typeof setTimeout> | undefined;
+};
+
+export async function enqueueJob(
+  type: JobType,
+  payload: Record<string, unknown>,
+  userId?: string
+): Promise<Job> {
+  const job = await prisma.job.create({
+    data: {
+      type,
+      payload: JSON.stringify(payload),
+      maxAttempts: MAX_ATTEMPTS[type],
+      userId: userId || null,
+    },
+  });
+  startJobWorker();
+  return job;
+}
+
+/**
+ * Cancel a job. Queued jobs stop immediately; running ones stop at their
+ * next progress checkpoint. Returns false if the job has already finished.
+ */
+export async function cancelJob(id: string): Promise<boolean> {
+  const queued = await prisma.job.updateMany({
+    where: { id, status: "queued" },
+    data: {
+      status: "cancelled",
+      cancelRequested: true,
+      payload: CLEARED_PAYLOAD,
+      finishedAt: new Date(),
+    },
+  });
+  if (queued.count > 0) return true;
+
+  const running = await prisma.job.updateMany({
+    where: { id, status: "running" },
+    data: { cancelRequested: true },
+  });
+  return running.count > 0;
+}
+
+/**
+ * Start processing queued jobs if the worker isn't already running.
+ */
+export function startJobWorker(): void {
+  if (globalForJobs.jobWorker) return;
+  globalForJobs.jobWorker = processQueue()
+    .catch((err) => console.error("Job worker error:", err))
+    .finally(() => {
+      globalForJobs.jobWorker = undefined;
+    });
+}
+
+// Whether a job can be run (again), or has used up its attempts
+const hasAttemptsLeft = (job: Job) => job.attempts < job.maxAttempts;
+
+async function failJob(id: string, error: string): Promise<void> {
+  await prisma.job.update({
+    where: { id },
+    data: { status: "failed", error, payload: CLEARED_PAYLOAD, finishedAt: new Date() },
+  });
+}
+
+/**
+ * Anything still marked running was interrupted by a restart. Jobs with
+ * attempts left go back in the queue; the rest, imports included, fail.
+ */
+async function recoverInterruptedJobs(): Promise<void> {
+  const interrupted = await prisma.job.findMany({ where: { status: "running" } });
+  for (const job of interrupted) {
+    if (hasAttemptsLeft(job)) {
+      await prisma.job.updateMany({
+        where: { id: job.id, status: "running" },
+        data: { status: "queued" },
+      });
+    } else {
+      await failJob(job.id, "Interrupted by a restart");
+    }
+  }
+}
+
+async function processQueue(): Promise<void> {
+  if (!globalForJobs.jobWorkerRecovered) {
+    globalForJobs.jobWorkerRecovered = true;
+    await recoverInterruptedJobs();
+  }
+
+  for (;;) {
+    const job = await claimNextJob();
+    if (!job) break;
+    await runJob(job);
+  }
+
+  // Wake up for the next scheduled retry
+  const next = await prisma.job.findFirst({
+    where: { status: "queued" },
+    orderBy: { runAfter: "asc" },
+  });
+  if (next) {
+    clearTimeout(globalForJobs.jobWakeTimer);
+    const delay = Math.max(next.runAfter.getTime() - Date.now(), 1000);
+    globalForJobs.jobWakeTimer = setTimeout(startJobWorker, delay);
+  }
+}
+
+async function claimNextJob(): Promise<Job | null> {
+  const next = await prisma.job.findFirst({
+    where: { status: "queued", runAfter: { lte: new Date() } },
+    orderBy: { createdAt: "asc" },
+  });
+  if (!next) return null;
+
+  if (!hasAttemptsLeft(next)) {
+    await failJob(next.id, next.error || "No attempts left");
+    return claimNextJob();
+  }
+
+  const claimed = await prisma.job.updateMany({
+    where: { id: next.id, status: "queued" },
+    data: {
+      status: "running",
+      attempts: { increment: 1 },
+      startedAt: new Date(),
+      error: null,
+    },
+  });
+  if (claimed.count === 0) return claimNextJob();
+
+  return prisma.job.findUnique({ where: { id: next.id } });
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = HANDLERS[job.type as JobType];
+
+  const ctx: JobContext = {
+    jobId: job.id,
+    attempt: job.attempts,
+    async progress(percent, message, stats) {
+      const updated = await prisma.job.update({
+        where: { id: job.id },
+        data: {
+          progress: Math.max(0, Math.min(100, Math.round(percent))),
+          ...(message !== undefined && { message }),
+          ...(stats && { stats: JSON.stringify(stats) }),
+        },
+        select: { cancelRequested: true },
+      });
+      if (updated.cancelRequested) throw new JobCancelledError();
+    },
+  };
+
+  try {
+    if (!handler) throw new Error(`Unknown job type: ${job.type}`);
+    const result = await handler(JSON.parse(job.payload) as never, ctx);
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "completed",
+        progress: 100,
+        result: JSON.stringify(result),
+        message: typeof result.message === "string" ? result.message : null,
+        payload: CLEARED_PAYLOAD,
+        finishedAt: new Date(),
+      },
+    });
+  } catch (err) {
+    if (err instanceof JobCancelledError) {
+      await prisma.job.update({
+        where: { id: job.id },
+        data: {
+          status: "cancelled",
+          message: "Cancelled",
+          payload: CLEARED_PAYLOAD,
+          finishedAt: new Date(),
+        },
+      });
+      return;
+    }
+
+    console.error(`Job ${job.id} (${job.type}) failed:`, err);
+    const error = err instanceof Error ? err.message : String(err);
+    const retry = job.attempts < job.maxAttempts;
+    await prisma.job.update({
+      where: { id: job.id },
+      data: retry
+        ? {
+            status: "queued",
+            error,
+            message: `Failed, retrying (attempt ${job.attempts + 1} of ${job.maxAttempts})`,
+            runAfter: new Date(Date.now() + RETRY_BASE_MS * 2 ** (job.attempts - 1)),
+          }
+        : { status: "failed", error, payload: CLEARED_PAYLOAD, finishedAt: new Date() },
+    });
+  }
+}
+
+export function toJobItem(job: Job): JobItem {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status as JobItem["status"],
+    progress: job.progress,
+    message: job.message,
+    stats: job.stats ? JSON.parse(job.stats) : null,
+    result: job.result ? JSON.parse(job.result) : null,
+    error: job.error,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString() || null,
+    finishedAt: job.finishedAt?.toISOString() || null,
+  };
+}
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { prisma } from "./db";
+import { UNKNOWN_IP } from "./auth";
+
+/**
+ * Brute-force protection for sign-in. Failed attempts are counted per email
+ * and per IP over a rolling window; past the limit, sign-in is refused
+ * until the window has passed since the last failure. A successful sign-in
+ * resets the count for that email, but not for the IP, so signing in to
+ * your own account doesn't reset a guessing run from the same address.
+ * When the IP can't be trusted (see clientIp), only the email count
+ * applies, so one client can't lock everyone out.
+ */
+
+const LOCKOUT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_EMAIL_FAILURES = 5;
+const MAX_IP_FAILURES = 20;
+
+// Attempts older than this are no longer needed
+const ATTEMPT_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const normaliseEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Seconds until sign-in is allowed again for this email and IP, or null
+ * if it isn't locked.
+ */
+export async function loginLockout(email: string, ip: string): Promise<number | null> {
+  const now = Date.now();
+  const windowStart = new Date(now - LOCKOUT_WINDOW_MS);
+  const key = normaliseEmail(email);
+
+  const lastSuccess = await prisma.loginAttempt.findFirst({
+    where: { email: key, success: true, createdAt: { gte: windowStart } },
+    orderBy: { createdAt: "desc" },
+  });
+  const emailSince = lastSuccess ? lastSuccess.createdAt : windowStart;
+
+  const [emailFailures, ipFailures] = await Promise.all([
+    prisma.loginAttempt.findMany({
+      where: { email: key, success: false, createdAt: { gt: emailSince } },
+      orderBy: { createdAt: "desc" },
+      take: MAX_EMAIL_FAILURES,
+    }),
+    ip === UNKNOWN_IP
+      ? []
+      : prisma.loginAttempt.findMany({
+          where: { ip, success: false, createdAt: { gte: windowStart } },
+          orderBy: { createdAt: "desc" },
+          take: MAX_IP_FAILURES,
+        }),
+  ]);
+
+  let lockedUntil = 0;
+  if (emailFailures.length >= MAX_EMAIL_FAILURES) {
+    lockedUntil = emailFailures[0].createdAt.getTime() + LOCKOUT_WINDOW_MS;
+  }
+  if (ipFailures.length >= MAX_IP_FAILURES) {
+    lockedUntil = Math.max(lockedUntil, ipFailures[0].createdAt.getTime() + LOCKOUT_WINDOW_MS);
+  }
+
+  return lockedUntil > now ? Math.ceil((lockedUntil - now) / 1000) : null;
+}
+
+/**
+ * The 429 for a locked-out sign-in, from loginLockout's seconds.
+ */
+export function lockedOutResponse(retryAfter: number): NextResponse {
+  const minutes = Math.ceil(retryAfter / 60);
+  return NextResponse.json(
+    {
+      error: `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
+
+export async function recordLoginAttempt(
+  email: string,
+  ip: string,
+  success: boolean
+): Promise<void> {
+  await prisma.loginAttempt.create({
+    data: { email: normaliseEmail(email), ip, success },
+  });
+
+  if (success) {
+    await prisma.loginAttempt.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - ATTEMPT_RETENTION_MS) } },
+    });
+  }
+}
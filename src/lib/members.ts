@@ -0,0 +1,89 @@
+import { prisma } from "./db";
+import { recordAudit, TRANSACTION_AUDIT_FIELDS } from "./audit";
+
+/**
+ * Who a transaction is attributed to. A manual choice beats a rule, and a
+ * rule beats the account's owner, so re-running rules or changing an
+ * account's owner never overrides what someone picked by hand.
+ */
+export type MemberSource = "manual" | "rule" | "account";
+
+// `?member=` value for transactions nobody is attributed to (shared spending)
+export const UNASSIGNED_MEMBER = "unassigned";
+
+/**
+ * Attribution for a new transaction on an account, before any rule runs.
+ */
+export function ownerAttribution(ownerId: string | null) {
+  return ownerId ? { memberId: ownerId, memberSource: "account" } : {};
+}
+
+/**
+ * Transaction filter for a `?member=` query param: a user id, or
+ * UNASSIGNED_MEMBER for shared spending. Absent means everyone.
+ */
+export function memberWhere(member: string | null): { memberId?: string | null } {
+  if (!member) return {};
+  return { memberId: member === UNASSIGNED_MEMBER ? null : member };
+}
+
+/**
+ * Re-attribute an account's transactions after its owner changes. Only
+ * ones attributed by ownership (or not at all) follow the new owner. Each
+ * change is audited as `userId`. Returns the number updated.
+ */
+export async function applyAccountOwner(
+  accountId: string,
+  ownerId: string | null,
+  userId: string | null
+): Promise<number> {
+  const where = {
+    accountId,
+    OR: [{ memberSource: null }, { memberSource: "account" }],
+  };
+  const before = await prisma.transaction.findMany({
+    where,
+    select: { id: true, memberId: true },
+  });
+
+  const { count } = await prisma.transaction.updateMany({
+    where,
+    data: ownerId
+      ? { memberId: ownerId, memberSource: "account" }
+      : { memberId: null, memberSource: null },
+  });
+
+  await recordAudit(
+    userId,
+    TRANSACTION_AUDIT_FIELDS,
+    before.map((tx) => ({
+      entityType: "transaction",
+      entityId: tx.id,
+      action: "account-owner",
+      before: tx,
+      after: { memberId: ownerId },
+    }))
+  );
+  return count;
+}
+
+/**
+ * Forget a family member who is being removed: their transactions become
+ * shared, their accounts unowned, rules stop attributing to them and
+ * their allowance budgets go.
+ */
+export async function clearMemberAttribution(userId: string): Promise<void> {
+  await prisma.transaction.updateMany({
+    where: { memberId: userId },
+    data: { memberId: null, memberSource: null },
+  });
+  await prisma.account.updateMany({
+    where: { ownerId: userId },
+    data: { ownerId: null },
+  });
+  await prisma.categoryRule.updateMany({
+    where: { setMemberId: userId },
+    data: { setMemberId: null },
+  });
+  await prisma.budget.deleteMany({ where: { memberId: userId } });
+}
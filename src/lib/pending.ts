@@ -0,0 +1,134 @@
+import { prisma } from "./db";
+import { descriptionSimilarity } from "./reconcile";
+import { unlinkTransfer } from "./transfers";
+import { removeTransferContributions } from "./goals";
+import type { BasiqTransaction } from "@/types";
+import Decimal from "decimal.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A card hold usually posts within a few business days of the purchase
+const MAX_POSTING_DAYS = 5;
+
+// Holds the bank never posts or drops (say, on a connection that stopped
+// syncing) are removed after this long regardless
+export const PENDING_EXPIRY_DAYS = 14;
+
+export type TransactionStatus = "pending" | "posted";
+
+export function transactionStatus(tx: BasiqTransaction): TransactionStatus {
+  return tx.status === "pending" ? "pending" : "posted";
+}
+
+/**
+ * The date a Basiq transaction happened. Pending ones have no postDate yet.
+ */
+export function transactionDate(tx: BasiqTransaction): Date {
+  return new Date(tx.transactionDate || tx.postDate || Date.now());
+}
+
+export interface PostedTransaction {
+  basiqTransactionId: string;
+  date: Date;
+  amount: Decimal;
+  direction: string;
+  description: string;
+  merchantName: string | null;
+}
+
+/**
+ * Find the pending hold a newly posted transaction settles and turn it into
+ * the posted row, so categories, notes and member edits made while it was
+ * pending carry over. Basiq gives the posted version a new id, and the
+ * amount can change (fuel, hotels, tips), so the match is on account,
+ * direction, date and description, preferring an exact amount. Returns the
+ * updated transaction id, or null if nothing was pending.
+ */
+export async function replacePendingTransaction(
+  accountId: string,
+  posted: PostedTransaction
+): Promise<string | null> {
+  const candidates = await prisma.transaction.findMany({
+    where: {
+      accountId,
+      status: "pending",
+      direction: posted.direction,
+      date: {
+        gte: new Date(posted.date.getTime() - MAX_POSTING_DAYS * DAY_MS),
+        lte: new Date(posted.date.getTime() + DAY_MS),
+      },
+    },
+  });
+  if (candidates.length === 0) return null;
+
+  const amount = posted.amount.abs();
+  const best = candidates
+    .map((tx) => ({
+      tx,
+      exactAmount: new Decimal(tx.amount.toString()).abs().equals(amount),
+      similarity: Math.max(
+        descriptionSimilarity(tx.description, posted.description),
+        posted.merchantName && tx.merchantName
+          ? descriptionSimilarity(tx.merchantName, posted.merchantName)
+          : 0
+      ),
+    }))
+    // An exact amount with any shared words, or a close description even
+    // though the amount moved
+    .filter((c) => (c.exactAmount && c.similarity > 0) || c.similarity >= 0.5)
+    .sort(
+      (a, b) =>
+        Number(b.exactAmount) - Number(a.exactAmount) || b.similarity - a.similarity
+    )[0];
+  if (!best) return null;
+
+  await prisma.transaction.update({
+    where: { id: best.tx.id },
+    data: {
+      basiqTransactionId: posted.basiqTransactionId,
+      status: "posted",
+      date: posted.date,
+      amount: posted.amount,
+      description: posted.description,
+      merchantName: best.tx.merchantName ?? posted.merchantName,
+    },
+  });
+  return best.tx.id;
+}
+
+/**
+ * Remove pending holds that have gone: ones on these accounts that Basiq no
+ * longer lists as pending (dropped, or posted under a new id we couldn't
+ * match), and any anywhere older than PENDING_EXPIRY_DAYS. Returns how many
+ * were removed.
+ */
+export async function expirePendingTransactions(
+  accountIds: string[],
+  stillPending: Set<string>
+): Promise<number> {
+  const expired = await prisma.transaction.findMany({
+    where: {
+      status: "pending",
+      OR: [
+        {
+          accountId: { in: accountIds },
+          basiqTransactionId: { notIn: [...stillPending] },
+        },
+        { date: { lt: new Date(Date.now() - PENDING_EXPIRY_DAYS * DAY_MS) } },
+      ],
+    },
+    select: { id: true },
+  });
+  const ids = expired.map((t) => t.id);
+  if (ids.length === 0) return 0;
+
+  for (const id of ids) await unlinkTransfer(id);
+  await removeTransferContributions(ids);
+  await prisma.transaction.updateMany({
+    where: { duplicateOfId: { in: ids } },
+    data: { duplicateOfId: null },
+  });
+  await prisma.transaction.deleteMany({ where: { id: { in: ids } } });
+
+  return ids.length;
+}
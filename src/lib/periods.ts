@@ -0,0 +1,39 @@
+// Fortnights start on Monday. Pick a known Monday as epoch so
+// period boundaries are consistent everywhere.
+const FORTNIGHT_EPOCH = new Date("2026-01-05T00:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PeriodRange {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * The fortnight containing the given date (defaults to now).
+ */
+export function getFortnightDates(date: Date = new Date()): PeriodRange {
+  const diffDays = Math.floor(
+    (date.getTime() - FORTNIGHT_EPOCH.getTime()) / DAY_MS
+  );
+  const fortnightNumber = Math.floor(diffDays / 14);
+
+  const start = new Date(
+    FORTNIGHT_EPOCH.getTime() + fortnightNumber * 14 * DAY_MS
+  );
+  const end = new Date(start.getTime() + 14 * DAY_MS - 1);
+
+  return { start, end };
+}
+
+export function getCurrentFortnightDates(): PeriodRange {
+  return getFortnightDates(new Date());
+}
+
+/**
+ * The calendar month containing the given date (defaults to now).
+ */
+export function getMonthDates(date: Date = new Date()): PeriodRange {
+  const start = new Date(date.getFullYear(), date.getMonth(), 1);
+  const end = new Date(date.getFullYear(), date.getMonth() + 1, 0, 23, 59, 59);
+  return { start, end };
+}
@@ -0,0 +1,133 @@
+import { prisma } from "./db";
+import { normaliseDescription } from "./dedupe";
+import type { Account } from "@prisma/client";
+import type { ReconcileMatch } from "@/types";
+import Decimal from "decimal.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Card transactions post a few days after they happen, so the CSV date and
+// Basiq's transactionDate can be this far apart
+const MAX_DAY_GAP = 3;
+
+// Minimum description similarity (0-1) when there's more than one candidate
+const MIN_SIMILARITY = 0.4;
+
+export interface IncomingTransaction {
+  basiqTransactionId: string;
+  date: Date;
+  amount: Decimal;
+  direction: string;
+  description: string;
+  merchantName: string | null;
+}
+
+/**
+ * Share of words the two descriptions have in common (Jaccard index), after
+ * stripping reference numbers and punctuation.
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normaliseDescription(a).split(" ").filter(Boolean));
+  const wordsB = new Set(normaliseDescription(b).split(" ").filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = [...wordsA].filter((w) => wordsB.has(w)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+const lastDigits = (accountNumber: string | null) =>
+  accountNumber ? accountNumber.replace(/\D/g, "").slice(-4) : "";
+
+/**
+ * The accounts whose imported rows may overlap a Basiq account: the account
+ * itself, plus any manual (CSV) account with the same account number or,
+ * failing that, the same name.
+ */
+export async function reconcileAccountIds(account: Account): Promise<string[]> {
+  const manual = await prisma.account.findMany({
+    where: { basiqAccountId: null, id: { not: account.id } },
+    select: { id: true, name: true, accountNumber: true },
+  });
+
+  const digits = lastDigits(account.accountNumber);
+  const same = manual.filter((m) =>
+    digits && lastDigits(m.accountNumber)
+      ? lastDigits(m.accountNumber) === digits
+      : m.name.trim().toLowerCase() === account.name.trim().toLowerCase()
+  );
+
+  return [account.id, ...same.map((m) => m.id)];
+}
+
+/**
+ * Look for an imported row that is the same transaction as an incoming
+ * Basiq one: same direction and amount, dated within a few days, with a
+ * similar description. If found, the row is adopted by attaching the
+ * basiqTransactionId. Its category, notes and other user edits are left
+ * alone. Returns what was merged, or null to create a new transaction.
+ */
+export async function reconcileTransaction(
+  accountIds: string[],
+  incoming: IncomingTransaction
+): Promise<ReconcileMatch | null> {
+  const amount = incoming.amount.abs();
+  const candidates = await prisma.transaction.findMany({
+    where: {
+      accountId: { in: accountIds },
+      basiqTransactionId: null,
+      direction: incoming.direction,
+      amount: { in: [amount, amount.negated()] },
+      date: {
+        gte: new Date(incoming.date.getTime() - MAX_DAY_GAP * DAY_MS),
+        lte: new Date(incoming.date.getTime() + MAX_DAY_GAP * DAY_MS),
+      },
+    },
+    include: { account: { select: { name: true } } },
+  });
+  if (candidates.length === 0) return null;
+
+  const scored = candidates
+    .map((tx) => {
+      const similarity = Math.max(
+        descriptionSimilarity(tx.description, incoming.description),
+        incoming.merchantName
+          ? descriptionSimilarity(tx.description, incoming.merchantName)
+          : 0
+      );
+      const dayGap = Math.abs(tx.date.getTime() - incoming.date.getTime()) / DAY_MS;
+      return { tx, similarity, dayGap };
+    })
+    // Prefer the closest description, then the closest date
+    .sort((a, b) => b.similarity - a.similarity || a.dayGap - b.dayGap);
+
+  const best = scored[0];
+  // A lone exact-amount match within a day is taken even if the bank words
+  // it differently; otherwise the description has to agree
+  const accepted =
+    best.similarity >= MIN_SIMILARITY ||
+    (candidates.length === 1 && best.dayGap <= 1);
+  if (!accepted) return null;
+
+  const { tx } = best;
+  await prisma.transaction.update({
+    where: { id: tx.id },
+    data: {
+      basiqTransactionId: incoming.basiqTransactionId,
+      merchantName: tx.merchantName ?? incoming.merchantName,
+      // Any possible-duplicate flag is settled now the bank has confirmed it
+      duplicateOfId: null,
+    },
+  });
+
+  return {
+    transactionId: tx.id,
+    basiqTransactionId: incoming.basiqTransactionId,
+    accountName: tx.account.name,
+    date: tx.date.toISOString(),
+    amount: amount.toNumber(),
+    direction: tx.direction,
+    importedDescription: tx.description,
+    basiqDescription: incoming.description,
+    similarity: Math.round(best.similarity * 100) / 100,
+  };
+}
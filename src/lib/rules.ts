@@ -0,0 +1,386 @@
+import { prisma } from "./db";
+import { recordAudit, TRANSACTION_AUDIT_FIELDS } from "./audit";
+import type { AuditInput } from "./audit";
+import type { CategoryRule, Prisma } from "@prisma/client";
+import Decimal from "decimal.js";
+
+/**
+ * The transaction fields a rule can condition on.
+ */
+export interface RuleInput {
+  description: string;
+  amount: Decimal | Prisma.Decimal | number | string;
+  direction: string;
+  accountId: string;
+  merchantName?: string | null;
+  date: Date;
+}
+
+/**
+ * What a matched rule sets on a transaction. Only fields the rule
+ * defines are present.
+ */
+export interface RuleActions {
+  categoryId?: string;
+  notes?: string;
+  isExcluded?: boolean;
+  isTransfer?: boolean;
+  cleanDescription?: string;
+  memberId?: string;
+}
+
+export interface RuleMatch {
+  ruleId: string;
+  actions: RuleActions;
+}
+
+/**
+ * The conditions a rule tests. Unset (null) conditions always pass.
+ */
+export interface RuleConditions {
+  pattern: string;
+  direction: string | null;
+  accountId: string | null;
+  merchantPattern: string | null;
+  minAmount: Decimal | Prisma.Decimal | null;
+  maxAmount: Decimal | Prisma.Decimal | null;
+  dayOfMonthMin: number | null;
+  dayOfMonthMax: number | null;
+}
+
+// Editable rule fields, as accepted by the category-rules API
+export interface RuleFields extends RuleConditions {
+  minAmount: Decimal | null;
+  maxAmount: Decimal | null;
+  categoryId: string | null;
+  priority: number;
+  setNotes: string | null;
+  setExcluded: boolean | null;
+  setTransfer: boolean | null;
+  setCleanDescription: string | null;
+  setMemberId: string | null;
+}
+
+// Lower priority numbers run first; ties go to the more confident, then older rule
+export const RULE_ORDER: Prisma.CategoryRuleOrderByWithRelationInput[] = [
+  { priority: "asc" },
+  { confidence: "desc" },
+  { createdAt: "asc" },
+];
+
+/**
+ * Compile a rule pattern into a case-insensitive test. Patterns are regexes;
+ * anything that isn't a valid regex is treated as plain text. An empty
+ * pattern matches everything.
+ */
+function compilePattern(pattern: string): (text: string) => boolean {
+  if (!pattern) return () => true;
+  try {
+    const regex = new RegExp(pattern, "i");
+    return (text) => regex.test(text);
+  } catch {
+    const upper = pattern.toUpperCase();
+    return (text) => text.toUpperCase().includes(upper);
+  }
+}
+
+export function ruleMatches(pattern: string, description: string): boolean {
+  return compilePattern(pattern)(description);
+}
+
+/**
+ * Compile a rule's conditions into a single test, so regexes and amount
+ * bounds are built once rather than per transaction.
+ * Amounts are compared as absolute values.
+ */
+export function compileConditions(rule: RuleConditions): (tx: RuleInput) => boolean {
+  const description = compilePattern(rule.pattern);
+  const merchant = rule.merchantPattern ? compilePattern(rule.merchantPattern) : null;
+  const min = rule.minAmount !== null ? new Decimal(rule.minAmount.toString()) : null;
+  const max = rule.maxAmount !== null ? new Decimal(rule.maxAmount.toString()) : null;
+  const { direction, accountId, dayOfMonthMin, dayOfMonthMax } = rule;
+
+  return (tx) => {
+    if (direction && direction !== tx.direction) return false;
+    if (accountId && accountId !== tx.accountId) return false;
+
+    const day = tx.date.getDate();
+    if (dayOfMonthMin !== null && day < dayOfMonthMin) return false;
+    if (dayOfMonthMax !== null && day > dayOfMonthMax) return false;
+
+    if (min || max) {
+      const amount = new Decimal(tx.amount.toString()).abs();
+      if (min && amount.lt(min)) return false;
+      if (max && amount.gt(max)) return false;
+    }
+
+    if (merchant && (!tx.merchantName || !merchant(tx.merchantName))) return false;
+
+    return description(tx.description);
+  };
+}
+
+/**
+ * Check every condition a rule defines against a transaction.
+ */
+export function ruleAppliesTo(rule: RuleConditions, tx: RuleInput): boolean {
+  return compileConditions(rule)(tx);
+}
+
+const blank = (v: unknown) => v === undefined || v === null || v === "";
+
+/**
+ * Validate and normalise rule fields from a request body. Missing fields
+ * are treated as "no condition" / "no action".
+ */
+export function parseRuleFields(
+  body: Record<string, unknown>
+): { fields: RuleFields } | { error: string } {
+  const text = (v: unknown) => (blank(v) ? null : String(v).trim());
+  const int = (v: unknown) => (blank(v) ? null : parseInt(String(v)));
+  const money = (v: unknown) => (blank(v) ? null : new Decimal(String(v)).abs());
+  const flag = (v: unknown) => (blank(v) ? null : v === true || v === "true");
+
+  let minAmount: Decimal | null;
+  let maxAmount: Decimal | null;
+  try {
+    minAmount = money(body.minAmount);
+    maxAmount = money(body.maxAmount);
+  } catch {
+    return { error: "Amounts must be numbers" };
+  }
+
+  const fields: RuleFields = {
+    pattern: text(body.pattern) || "",
+    direction: text(body.direction),
+    accountId: text(body.accountId),
+    merchantPattern: text(body.merchantPattern),
+    minAmount,
+    maxAmount,
+    dayOfMonthMin: int(body.dayOfMonthMin),
+    dayOfMonthMax: int(body.dayOfMonthMax),
+    categoryId: text(body.categoryId),
+    priority: int(body.priority) ?? 100,
+    setNotes: text(body.setNotes),
+    setExcluded: flag(body.setExcluded),
+    setTransfer: flag(body.setTransfer),
+    setCleanDescription: text(body.setCleanDescription),
+    setMemberId: text(body.setMemberId),
+  };
+
+  if (fields.direction && !["debit", "credit"].includes(fields.direction)) {
+    return { error: "Direction must be debit or credit" };
+  }
+  if (minAmount && maxAmount && minAmount.gt(maxAmount)) {
+    return { error: "Minimum amount is greater than maximum" };
+  }
+  for (const day of [fields.dayOfMonthMin, fields.dayOfMonthMax]) {
+    if (day !== null && (isNaN(day) || day < 1 || day > 31)) {
+      return { error: "Day of month must be between 1 and 31" };
+    }
+  }
+  if (isNaN(fields.priority)) {
+    return { error: "Priority must be a number" };
+  }
+
+  const hasCondition =
+    fields.pattern ||
+    fields.direction ||
+    fields.accountId ||
+    fields.merchantPattern ||
+    minAmount ||
+    maxAmount ||
+    fields.dayOfMonthMin !== null ||
+    fields.dayOfMonthMax !== null;
+  if (!hasCondition) {
+    return { error: "A rule needs at least one condition" };
+  }
+
+  return { fields };
+}
+
+/**
+ * True when parsed fields set at least one action.
+ */
+export function hasRuleAction(fields: RuleFields): boolean {
+  return Boolean(
+    fields.categoryId ||
+      fields.setNotes ||
+      fields.setExcluded !== null ||
+      fields.setTransfer !== null ||
+      fields.setCleanDescription ||
+      fields.setMemberId
+  );
+}
+
+export function ruleActions(rule: CategoryRule): RuleActions {
+  const actions: RuleActions = {};
+  if (rule.categoryId) actions.categoryId = rule.categoryId;
+  if (rule.setNotes) actions.notes = rule.setNotes;
+  if (rule.setExcluded !== null) actions.isExcluded = rule.setExcluded;
+  if (rule.setTransfer !== null) actions.isTransfer = rule.setTransfer;
+  if (rule.setCleanDescription) actions.cleanDescription = rule.setCleanDescription;
+  if (rule.setMemberId) actions.memberId = rule.setMemberId;
+  return actions;
+}
+
+/**
+ * Transaction update data for a matched rule. The rule is recorded on the
+ * transaction for auditing, along with the fields it set, and a category
+ * or member it sets is marked with source "rule".
+ */
+export function ruleUpdateData(ruleId: string, actions: RuleActions) {
+  return {
+    ...actions,
+    ruleId,
+    ruleFields: JSON.stringify(Object.keys(actions)),
+    ...(actions.categoryId && { categorySource: "rule" }),
+    ...(actions.memberId && { memberSource: "rule" }),
+  };
+}
+
+/**
+ * The fields a rule set on a transaction. AI output and bank updates leave
+ * these alone. Kept when the category is later changed by hand, since the
+ * rule's other actions still stand.
+ */
+export function ruleSetFields(tx: { ruleFields: string | null }): Set<keyof RuleActions> {
+  return new Set(tx.ruleFields ? JSON.parse(tx.ruleFields) : []);
+}
+
+/**
+ * All rules compiled once, in priority order. Use one index for a whole
+ * import or sync: match() records hits in memory and flushHits() writes
+ * them back in one pass at the end.
+ */
+export interface RuleIndex {
+  size: number;
+  match(tx: RuleInput): RuleMatch | null;
+  flushHits(): Promise<void>;
+}
+
+function buildRuleIndex(rules: CategoryRule[]): RuleIndex {
+  const compiled = rules.map((rule) => ({
+    id: rule.id,
+    test: compileConditions(rule),
+    actions: ruleActions(rule),
+  }));
+  const hits = new Map<string, number>();
+
+  return {
+    size: compiled.length,
+
+    match(tx) {
+      const rule = compiled.find((r) => r.test(tx));
+      if (!rule) return null;
+      hits.set(rule.id, (hits.get(rule.id) || 0) + 1);
+      return { ruleId: rule.id, actions: rule.actions };
+    },
+
+    async flushHits() {
+      const pending = [...hits.entries()];
+      hits.clear();
+      const now = new Date();
+      for (const [id, count] of pending) {
+        // The rule may have been deleted mid-run
+        await prisma.categoryRule.updateMany({
+          where: { id },
+          data: { hitCount: { increment: count }, lastMatchedAt: now },
+        });
+      }
+    },
+  };
+}
+
+/**
+ * Compile every rule into an index. Load a fresh one at the start of each
+ * import or sync, so rule edits made anywhere (another process, a script)
+ * apply from the next run.
+ */
+export async function loadRuleIndex(): Promise<RuleIndex> {
+  const rules = await prisma.categoryRule.findMany({ orderBy: RULE_ORDER });
+  return buildRuleIndex(rules);
+}
+
+/**
+ * Find the first rule (in priority order) that matches a single
+ * transaction and record the hit. For bulk work use loadRuleIndex().
+ */
+export async function findMatchingRule(tx: RuleInput): Promise<RuleMatch | null> {
+  const index = await loadRuleIndex();
+  const match = index.match(tx);
+  if (match) await index.flushHits();
+  return match;
+}
+
+/**
+ * Re-apply a rule's actions to every existing transaction it matches.
+ * Manually categorised or attributed transactions keep their category or
+ * member. Each change is audited as `userId`. Returns the number of
+ * transactions updated.
+ */
+export async function reapplyRule(ruleId: string, userId: string | null): Promise<number> {
+  const rule = await prisma.categoryRule.findUnique({ where: { id: ruleId } });
+  if (!rule) return 0;
+
+  const transactions = await prisma.transaction.findMany({
+    select: {
+      id: true,
+      description: true,
+      amount: true,
+      direction: true,
+      accountId: true,
+      merchantName: true,
+      date: true,
+      categoryId: true,
+      categorySource: true,
+      notes: true,
+      isExcluded: true,
+      isTransfer: true,
+      cleanDescription: true,
+      memberId: true,
+      memberSource: true,
+    },
+  });
+
+  const applies = compileConditions(rule);
+  const actions = ruleActions(rule);
+  const audit: AuditInput[] = [];
+
+  for (const tx of transactions) {
+    if (!applies(tx)) continue;
+
+    const data = { ...actions };
+    if (tx.categorySource === "manual") delete data.categoryId;
+    if (tx.memberSource === "manual") delete data.memberId;
+
+    // Skip transactions the rule wouldn't change
+    const changed = (Object.keys(data) as (keyof RuleActions)[]).some(
+      (key) => data[key] !== tx[key]
+    );
+    if (!changed) continue;
+
+    await prisma.transaction.update({
+      where: { id: tx.id },
+      data: ruleUpdateData(rule.id, data),
+    });
+    audit.push({
+      entityType: "transaction",
+      entityId: tx.id,
+      action: "rule-applied",
+      before: tx,
+      after: { ...tx, ...data },
+    });
+  }
+
+  const updated = audit.length;
+  await recordAudit(userId, TRANSACTION_AUDIT_FIELDS, audit);
+  if (updated > 0) {
+    await prisma.categoryRule.update({
+      where: { id: rule.id },
+      data: { hitCount: { increment: updated }, lastMatchedAt: new Date() },
+    });
+  }
+
+  return updated;
+}
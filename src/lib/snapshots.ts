@@ -0,0 +1,180 @@
+import { prisma } from "./db";
+import { getBudgetActuals, isUnderBudget } from "./budgets";
+import { computeHealthScore } from "./health";
+import { getFortnightDates, getMonthDates } from "./periods";
+import type { PeriodRange } from "./periods";
+import { decimalToNumber } from "@/types";
+import type {
+  CategoryGrade,
+  CategorySnapshot,
+  PeriodSnapshotItem,
+  PeriodType,
+} from "@/types";
+import type { PeriodSnapshot } from "@prisma/client";
+import Decimal from "decimal.js";
+
+export const PERIOD_TYPES: PeriodType[] = ["fortnight", "month"];
+
+// Backfills start no earlier than this, whatever `from` says
+export const BACKFILL_MAX_YEARS = 10;
+
+/**
+ * Letter grade for a category's spend as a percentage of its budget.
+ */
+export function gradeForPercentage(percentage: number): CategoryGrade {
+  if (percentage <= 80) return "A";
+  if (percentage <= 100) return "B";
+  if (percentage <= 120) return "C";
+  return "D";
+}
+
+export function getPeriodDates(periodType: PeriodType, date: Date): PeriodRange {
+  return periodType === "month" ? getMonthDates(date) : getFortnightDates(date);
+}
+
+/**
+ * The most recent period of this type that has fully ended.
+ */
+export function getLastEndedPeriod(
+  periodType: PeriodType,
+  now: Date = new Date()
+): PeriodRange {
+  const current = getPeriodDates(periodType, now);
+  return getPeriodDates(periodType, new Date(current.start.getTime() - 1));
+}
+
+/**
+ * Freeze a period's income, expenses, net savings, health score and graded
+ * category breakdown into a PeriodSnapshot. Re-closing a period overwrites it.
+ */
+export async function closePeriod(
+  periodType: PeriodType,
+  period: PeriodRange
+): Promise<PeriodSnapshot> {
+  const budgetData = await getBudgetActuals(period.start, period.end, { periodType });
+  const { actuals, summary } = budgetData;
+  const health = await computeHealthScore(periodType, period, budgetData);
+
+  // Report cards grade household budgets; personal allowances still count
+  // towards wasUnderBudget
+  const categoryBreakdown: CategorySnapshot[] = actuals
+    .filter((a) => !a.memberId)
+    .map((a) => ({
+      categoryId: a.categoryId,
+      categoryName: a.categoryName,
+      categoryIcon: a.categoryIcon,
+      budgetAmount: a.budgetAmount,
+      actualAmount: a.actualAmount,
+      percentage: a.percentage,
+      grade: gradeForPercentage(a.percentage),
+    }));
+
+  const data = {
+    periodEnd: period.end,
+    totalIncome: new Decimal(summary.totalIncome),
+    totalExpenses: new Decimal(summary.totalExpenses),
+    netSavings: new Decimal(summary.net),
+    categoryBreakdown: JSON.stringify(categoryBreakdown),
+    wasUnderBudget: isUnderBudget(actuals),
+    healthScore: health.score,
+  };
+
+  return prisma.periodSnapshot.upsert({
+    where: {
+      periodType_periodStart: { periodType, periodStart: period.start },
+    },
+    update: data,
+    create: { ...data, periodType, periodStart: period.start },
+  });
+}
+
+/**
+ * Close every fortnight and month that has ended since the latest snapshot
+ * of its type, including any that ended while the app sat idle. With no
+ * snapshots yet, only the last ended period is closed (see
+ * backfillSnapshots for history). Cheap to call after every sync or import.
+ */
+export async function closeEndedPeriods(): Promise<PeriodSnapshot[]> {
+  const closed: PeriodSnapshot[] = [];
+
+  for (const periodType of PERIOD_TYPES) {
+    const last = getLastEndedPeriod(periodType);
+    const latest = await prisma.periodSnapshot.findFirst({
+      where: { periodType },
+      orderBy: { periodStart: "desc" },
+    });
+
+    let period = latest
+      ? getPeriodDates(periodType, new Date(latest.periodEnd.getTime() + 1000))
+      : last;
+
+    while (period.start <= last.start) {
+      const existing = await prisma.periodSnapshot.findUnique({
+        where: {
+          periodType_periodStart: { periodType, periodStart: period.start },
+        },
+      });
+      if (!existing) closed.push(await closePeriod(periodType, period));
+      period = getPeriodDates(periodType, new Date(period.end.getTime() + 1000));
+    }
+  }
+
+  return closed;
+}
+
+/**
+ * Rebuild snapshots for every ended period from the first transaction
+ * (or `from`, if later) up to the last ended period, going back at most
+ * BACKFILL_MAX_YEARS.
+ */
+export async function backfillSnapshots(
+  periodType: PeriodType,
+  from?: Date
+): Promise<number> {
+  const first = await prisma.transaction.findFirst({
+    orderBy: { date: "asc" },
+    select: { date: true },
+  });
+  if (!first) return 0;
+
+  const earliest = new Date();
+  earliest.setFullYear(earliest.getFullYear() - BACKFILL_MAX_YEARS);
+  const startDate = new Date(
+    Math.max(first.date.getTime(), from?.getTime() ?? 0, earliest.getTime())
+  );
+
+  const last = getLastEndedPeriod(periodType);
+  let period = getPeriodDates(periodType, startDate);
+  let count = 0;
+
+  while (period.start <= last.start) {
+    await closePeriod(periodType, period);
+    count++;
+    period = getPeriodDates(periodType, new Date(period.end.getTime() + 1000));
+  }
+
+  return count;
+}
+
+export function toSnapshotItem(snapshot: PeriodSnapshot): PeriodSnapshotItem {
+  let categoryBreakdown: CategorySnapshot[] = [];
+  try {
+    categoryBreakdown = JSON.parse(snapshot.categoryBreakdown);
+  } catch {
+    // Leave empty if the stored JSON is unreadable
+  }
+
+  return {
+    id: snapshot.id,
+    periodType: snapshot.periodType as PeriodType,
+    periodStart: snapshot.periodStart.toISOString(),
+    periodEnd: snapshot.periodEnd.toISOString(),
+    totalIncome: decimalToNumber(snapshot.totalIncome),
+    totalExpenses: decimalToNumber(snapshot.totalExpenses),
+    netSavings: decimalToNumber(snapshot.netSavings),
+    healthScore: snapshot.healthScore,
+    categoryBreakdown,
+    wasUnderBudget: snapshot.wasUnderBudget,
+    createdAt: snapshot.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,195 @@
+import {
+  chooseCsvProfile,
+  parseDate,
+  parseMoney,
+  parseWithProfile,
+} from "./import-profiles";
+import type { ImportProfile, ParsedFile, ParsedRow } from "./import-profiles";
+import type { ImportMapping } from "@/types";
+
+export type StatementFormat = "csv" | "ofx" | "qif";
+
+/**
+ * Work out a statement's format from its extension, falling back to its
+ * content for files saved with the wrong one.
+ */
+export function detectStatementFormat(fileName: string, text: string): StatementFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "ofx" || ext === "qfx") return "ofx";
+  if (ext === "qif") return "qif";
+
+  const head = text.slice(0, 1000).trimStart();
+  if (/OFXHEADER|<OFX>/i.test(head)) return "ofx";
+  if (/^!Type:/i.test(head)) return "qif";
+  return "csv";
+}
+
+// OFX dates are YYYYMMDD, optionally followed by a time and timezone
+function parseOfxDate(value: string): Date | null {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!m) return null;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+}
+
+/**
+ * Read the simple elements of an OFX aggregate. Handles both OFX 1.x SGML,
+ * where elements aren't closed, and OFX 2.x XML.
+ */
+function ofxFields(block: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const m of block.matchAll(/<([A-Z0-9.]+)>([^<\r\n]*)/gi)) {
+    const value = m[2].trim();
+    if (value) fields[m[1].toUpperCase()] = decodeEntities(value);
+  }
+  return fields;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Parse an OFX or QFX statement (bank or credit card). TRNAMT is signed,
+ * negative being money out.
+ */
+export function parseOfx(text: string): ParsedFile {
+  const rows: ParsedRow[] = [];
+  let invalid = 0;
+
+  for (const m of text.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+    const f = ofxFields(m[1]);
+    const date = parseOfxDate(f.DTPOSTED || "");
+    const value = parseMoney(f.TRNAMT);
+    const description = f.NAME || f.MEMO || f.PAYEE;
+    if (!date || !value || !description) {
+      invalid++;
+      continue;
+    }
+
+    rows.push({
+      date,
+      description,
+      amount: value.abs(),
+      direction: value.isNegative() ? "debit" : "credit",
+      balance: null,
+      fitId: f.FITID,
+    });
+  }
+
+  let ledgerBalance: ParsedFile["ledgerBalance"];
+  const ledger = text.match(/<LEDGERBAL>([\s\S]*?)(<\/LEDGERBAL>|<AVAILBAL>|<\/STMTRS>|<\/CCSTMTRS>)/i);
+  if (ledger) {
+    const f = ofxFields(ledger[1]);
+    const amount = parseMoney(f.BALAMT);
+    const date = parseOfxDate(f.DTASOF || "");
+    if (amount && date) ledgerBalance = { amount, date };
+  }
+
+  return { rows, invalid, ledgerBalance };
+}
+
+/**
+ * Parse a QIF statement. QIF has no fixed date order, so the file is
+ * treated as DD/MM unless a date only makes sense as MM/DD.
+ */
+export function parseQif(text: string): ParsedFile {
+  const records: Record<string, string>[] = [];
+  let current: Record<string, string> = {};
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("!")) continue;
+    if (line === "^") {
+      records.push(current);
+      current = {};
+      continue;
+    }
+    const code = line[0];
+    // Keep the first of each code; split lines (S/E/$) repeat them
+    if (!(code in current)) current[code] = line.slice(1).trim();
+  }
+  if (Object.keys(current).length > 0) records.push(current);
+
+  // Quicken writes years as '26 or /2026, and sometimes pads with spaces
+  const dates = records.map((r) =>
+    (r.D || "").replace(/'/g, "/").replace(/\s+/g, "").split(/[/.-]/).map(Number)
+  );
+  const monthFirst =
+    !dates.some((d) => d[0] > 12) && dates.some((d) => d[1] > 12);
+
+  const rows: ParsedRow[] = [];
+  let invalid = 0;
+
+  records.forEach((r, i) => {
+    const [a, b, year] = dates[i];
+    const [day, month] = monthFirst ? [b, a] : [a, b];
+    const date =
+      day && month && year
+        ? parseDate(`${day}/${month}/${year}`, "DD/MM/YYYY")
+        : null;
+    const value = parseMoney(r.T || r.U);
+    const description = r.P || r.M;
+    if (!date || !value || !description) {
+      invalid++;
+      return;
+    }
+
+    rows.push({
+      date,
+      description,
+      amount: value.abs(),
+      direction: value.isNegative() ? "debit" : "credit",
+      balance: null,
+    });
+  });
+
+  return { rows, invalid };
+}
+
+export interface StatementOptions {
+  profileId?: string | null;
+  mapping?: ImportMapping | null;
+  template?: ImportProfile | null;
+}
+
+export interface Statement {
+  format: StatementFormat;
+  // What the file was read as, e.g. "Westpac" or "OFX"
+  source: string;
+  // The CSV profile used, if any
+  profile: ImportProfile | null;
+  parsed: ParsedFile;
+}
+
+/**
+ * Read an uploaded statement in whatever format it's in. Returns an error
+ * message for CSVs whose layout can't be worked out.
+ */
+export function readStatement(
+  fileName: string,
+  text: string,
+  options: StatementOptions = {}
+): Statement | { error: string } {
+  const format = detectStatementFormat(fileName, text);
+  if (format === "ofx") {
+    return { format, source: "OFX", profile: null, parsed: parseOfx(text) };
+  }
+  if (format === "qif") {
+    return { format, source: "QIF", profile: null, parsed: parseQif(text) };
+  }
+
+  const profile = chooseCsvProfile(text, options);
+  if (!profile) {
+    return {
+      error: options.profileId
+        ? "Unknown import profile"
+        : "Couldn't recognise this CSV. Map its columns and try again.",
+    };
+  }
+  return { format, source: profile.name, profile, parsed: parseWithProfile(text, profile) };
+}
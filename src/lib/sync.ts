@@ -0,0 +1,339 @@
+import { prisma } from "./db";
+import { basiqClient, pollJobUntilComplete } from "./basiq";
+import { loadRuleIndex, ruleSetFields, ruleUpdateData } from "./rules";
+import { ownerAttribution } from "./members";
+import { closeEndedPeriods } from "./snapshots";
+import { evaluateAchievements } from "./achievements";
+import { reconcileAccountIds, reconcileTransaction } from "./reconcile";
+import {
+  expirePendingTransactions,
+  replacePendingTransaction,
+  transactionDate,
+  transactionStatus,
+} from "./pending";
+import type { JobContext } from "./jobs";
+import type { ReconcileMatch } from "@/types";
+import Decimal from "decimal.js";
+
+export interface SyncJobPayload {
+  trigger?: "manual" | "scheduled" | "webhook";
+  // Sync just this connection (a webhook said its transactions changed)
+  connectionId?: string;
+}
+
+// Basiq step failures that only the account holder can fix by re-consenting
+const RECONSENT_CODES = [
+  "invalid-credentials",
+  "user-action-required",
+  "account-not-accessible-requires-user-action",
+  "consent-expired",
+  "consent-revoked",
+];
+
+/**
+ * Whether a sync failure means the bank connection needs the user to go
+ * through Basiq consent again, rather than a retry.
+ */
+export function needsReconsent(error: string): boolean {
+  return (
+    RECONSENT_CODES.some((code) => error.includes(code)) ||
+    error.startsWith("Basiq API error 403")
+  );
+}
+
+/**
+ * Refresh every active bank connection (or just the one in the payload)
+ * through Basiq: update account balances, then pull transactions since the
+ * last sync. New transactions are matched against CSV-imported rows first
+ * and rule-categorised otherwise. Runs as a background job; one failing
+ * connection doesn't stop the others.
+ */
+export async function syncConnections(
+  payload: SyncJobPayload,
+  ctx: JobContext
+): Promise<Record<string, unknown>> {
+  // Runs left open by an interrupted sync will never finish
+  await prisma.syncRun.updateMany({
+    where: { status: "running" },
+    data: { status: "failed", error: "Interrupted", finishedAt: new Date() },
+  });
+
+  const connections = await prisma.bankConnection.findMany({
+    where: {
+      status: "active",
+      ...(payload.connectionId && { id: payload.connectionId }),
+    },
+    include: { accounts: true },
+  });
+
+  if (connections.length === 0) {
+    return { message: "No active connections to sync", synced: 0 };
+  }
+
+  let totalSynced = 0;
+  let rulesApplied = 0;
+  let failed = 0;
+  let expired = 0;
+  const merged: ReconcileMatch[] = [];
+  const reconcileIds = new Map<string, string[]>();
+  // Compile rules once for every connection in this sync
+  const ruleIndex = await loadRuleIndex();
+
+  for (const [n, conn] of connections.entries()) {
+    await ctx.progress(
+      (n / connections.length) * 90,
+      `Syncing connection ${n + 1} of ${connections.length}`,
+      {
+        connection: n + 1,
+        connections: connections.length,
+        synced: totalSynced,
+        merged: merged.length,
+        rulesApplied,
+      }
+    );
+    const run = await prisma.syncRun.create({
+      data: {
+        connectionId: conn.id,
+        jobId: ctx.jobId,
+        trigger: payload.trigger || "manual",
+      },
+    });
+    let added = 0;
+    let updated = 0;
+    let mergedHere = 0;
+
+    try {
+      // Refresh the connection
+      const job = await basiqClient.refreshConnection(
+        conn.basiqUserId,
+        conn.basiqConnectionId
+      );
+      const refreshed = await pollJobUntilComplete(job.id);
+      const failedStep = refreshed.steps.find((step) => step.status === "failed");
+      if (failedStep) {
+        throw new Error(
+          `Basiq ${failedStep.title} failed: ${failedStep.result?.code || "unknown error"}`
+        );
+      }
+
+      // Fetch accounts and update balances
+      const basiqAccounts = await basiqClient.getAccounts(conn.basiqUserId);
+      for (const ba of basiqAccounts) {
+        await prisma.account.upsert({
+          where: { basiqAccountId: ba.id },
+          update: {
+            name: ba.name,
+            balance: new Decimal(ba.balance || "0"),
+            availableFunds: ba.availableFunds
+              ? new Decimal(ba.availableFunds)
+              : null,
+            lastUpdated: new Date(),
+          },
+          create: {
+            basiqAccountId: ba.id,
+            connectionId: conn.id,
+            name: ba.name,
+            accountNumber: ba.accountNo || null,
+            balance: new Decimal(ba.balance || "0"),
+            availableFunds: ba.availableFunds
+              ? new Decimal(ba.availableFunds)
+              : null,
+            type: ba.class?.type || "transaction",
+            currency: ba.currency || "AUD",
+            lastUpdated: new Date(),
+          },
+        });
+      }
+
+      // Fetch transactions posted since last sync, plus everything still
+      // pending (pending ones have no postDate, so the date filter skips them)
+      const fromDate = conn.lastSyncAt
+        ? conn.lastSyncAt.toISOString().split("T")[0]
+        : undefined;
+
+      const [postedTxs, pendingTxs] = await Promise.all([
+        basiqClient.getTransactions(conn.basiqUserId, { fromDate }),
+        basiqClient.getTransactions(conn.basiqUserId, { status: "pending" }),
+      ]);
+      // Posted first, so a hold that has settled is replaced before the
+      // pending list is looked at
+      const transactions = [
+        ...new Map([...postedTxs, ...pendingTxs].map((tx) => [tx.id, tx])).values(),
+      ];
+
+      for (const tx of transactions) {
+        const status = transactionStatus(tx);
+        const date = transactionDate(tx);
+
+        const existing = await prisma.transaction.findUnique({
+          where: { basiqTransactionId: tx.id },
+        });
+
+        // Find the account for this transaction
+        const account = await prisma.account.findFirst({
+          where: {
+            basiqAccountId: tx.account,
+            connectionId: conn.id,
+          },
+        });
+        if (!account) continue;
+
+        if (existing) {
+          // Update if amount, description or status changed. A clean
+          // description set by a rule stays.
+          await prisma.transaction.update({
+            where: { id: existing.id },
+            data: {
+              status,
+              date,
+              amount: new Decimal(tx.amount),
+              description: tx.description,
+              ...(!ruleSetFields(existing).has("cleanDescription") && {
+                cleanDescription: tx.enrich?.merchant?.businessName || tx.description,
+              }),
+              merchantName: tx.enrich?.merchant?.businessName || null,
+            },
+          });
+          updated++;
+        } else {
+          const merchantName = tx.enrich?.merchant?.businessName || null;
+          const incoming = {
+            basiqTransactionId: tx.id,
+            date,
+            amount: new Decimal(tx.amount),
+            direction: tx.direction,
+            description: tx.description,
+            merchantName,
+          };
+
+          if (status === "posted") {
+            // Adopt a matching CSV-imported row rather than duplicating it.
+            // Imported rows are always posted, so pending holds skip this.
+            let accountIds = reconcileIds.get(account.id);
+            if (!accountIds) {
+              accountIds = await reconcileAccountIds(account);
+              reconcileIds.set(account.id, accountIds);
+            }
+            const match = await reconcileTransaction(accountIds, incoming);
+            if (match) {
+              merged.push(match);
+              mergedHere++;
+              continue;
+            }
+
+            // Settle the pending hold this posts
+            if (await replacePendingTransaction(account.id, incoming)) {
+              updated++;
+              continue;
+            }
+          }
+
+          // Auto-categorise new transactions
+          const ruleMatch = ruleIndex.match({
+            description: tx.description,
+            amount: tx.amount,
+            direction: tx.direction,
+            accountId: account.id,
+            merchantName,
+            date,
+          });
+
+          await prisma.transaction.create({
+            data: {
+              basiqTransactionId: tx.id,
+              accountId: account.id,
+              date,
+              description: tx.description,
+              cleanDescription: merchantName || tx.description,
+              amount: new Decimal(tx.amount),
+              direction: tx.direction,
+              status,
+              categorySource: null,
+              merchantName,
+              ...ownerAttribution(account.ownerId),
+              ...(ruleMatch && ruleUpdateData(ruleMatch.ruleId, ruleMatch.actions)),
+            },
+          });
+          totalSynced++;
+          added++;
+          if (ruleMatch) rulesApplied++;
+        }
+      }
+
+      // Drop holds Basiq no longer lists as pending
+      expired += await expirePendingTransactions(
+        conn.accounts.map((a) => a.id),
+        new Set(pendingTxs.map((tx) => tx.id))
+      );
+
+      // Update last sync timestamp
+      await prisma.bankConnection.update({
+        where: { id: conn.id },
+        data: { lastSyncAt: new Date() },
+      });
+      await prisma.syncRun.update({
+        where: { id: run.id },
+        data: {
+          status: "success",
+          added,
+          updated,
+          merged: mergedHere,
+          finishedAt: new Date(),
+        },
+      });
+    } catch (err) {
+      console.error(`Sync error for connection ${conn.id}:`, err);
+      failed++;
+      const error = err instanceof Error ? err.message : String(err);
+      await prisma.syncRun.update({
+        where: { id: run.id },
+        data: {
+          status: "failed",
+          added,
+          updated,
+          merged: mergedHere,
+          error,
+          finishedAt: new Date(),
+        },
+      });
+      // Stop syncing it until the user re-consents; retrying won't help
+      if (needsReconsent(error)) {
+        await prisma.bankConnection.update({
+          where: { id: conn.id },
+          data: { status: "reauth_required" },
+        });
+      }
+      // Continue with other connections
+    }
+  }
+
+  await ruleIndex.flushHits();
+  await ctx.progress(90, "Finishing up", {
+    connections: connections.length,
+    synced: totalSynced,
+    merged: merged.length,
+    rulesApplied,
+  });
+
+  // Snapshot any fortnight or month that ended since the last sync
+  try {
+    await closeEndedPeriods();
+  } catch (err) {
+    console.error("Period close error:", err);
+  }
+
+  // Award any badges this sync unlocked
+  try {
+    await evaluateAchievements();
+  } catch (err) {
+    console.error("Achievement evaluation error:", err);
+  }
+
+  return {
+    message: `Sync complete: ${totalSynced} new transactions, ${merged.length} matched to imported rows${expired ? `, ${expired} expired pending removed` : ""}${failed ? `, ${failed} of ${connections.length} connections failed` : ""}`,
+    synced: totalSynced,
+    expired,
+    failed,
+    merged,
+  };
+}
@@ -0,0 +1,141 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238) for two-factor sign-in, as used
+ * by Google Authenticator, 1Password and the like: HMAC-SHA1 over 30-second
+ * steps, 6 digits. Secrets are exchanged as base32.
+ */
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next code too, for clock drift
+const DRIFT_STEPS = 1;
+
+const ISSUER = "Family Financial";
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * A new random secret, base32 encoded (160 bits, as RFC 4226 recommends).
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const mac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = mac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * Check a code against the secret. Returns the time step it matched, or
+ * null. Pass the last step that was accepted so a code can't be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastStep: number | null = null,
+  now = Date.now()
+): number | null {
+  const given = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(given) || given.length !== DIGITS) return null;
+
+  const step = currentStep(now);
+  for (let s = step - DRIFT_STEPS; s <= step + DRIFT_STEPS; s++) {
+    if (lastStep !== null && s <= lastStep) continue;
+    const expected = totpCode(secret, s);
+    if (timingSafeEqual(Buffer.from(given), Buffer.from(expected))) return s;
+  }
+  return null;
+}
+
+/**
+ * The otpauth:// URI authenticator apps read from a QR code or link.
+ */
+export function totpUri(secret: string, email: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// Recovery codes
+
+const normaliseRecoveryCode = (code: string) =>
+  code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Codes are random enough that a plain hash is safe to store
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normaliseRecoveryCode(code)).digest("hex");
+}
+
+/**
+ * Single-use codes for when the authenticator is lost, formatted
+ * xxxxx-xxxxx. Shown once; only their hashes are kept.
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(randomBytes(7)).toLowerCase().slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Use up a recovery code. Returns the remaining hashes, or null if the
+ * code doesn't match any of them.
+ */
+export function redeemRecoveryCode(hashes: string[], code: string): string[] | null {
+  const hash = hashRecoveryCode(code);
+  if (!hashes.includes(hash)) return null;
+  return hashes.filter((h) => h !== hash);
+}
@@ -1,4 +1,8 @@
 import { prisma } from "./db";
+import {
+  recordTransferContribution,
+  removeTransferContributions,
+} from "./goals";
 
 /**
  * Transfer detection patterns.
@@ -140,6 +144,11 @@ export async function detectTransfers(accountId: string): Promise<number> {
         },
       });
 
+      // Fund any goal linked to the receiving account
+      await recordTransferContribution(
+        tx.direction === "credit" ? tx.id : match.id
+      );
+
       linkedCount++;
     } else {
       // No cross-account match found, but it still looks like a transfer
@@ -261,6 +270,13 @@ async function markSingleAccountTransfers(accountId: string): Promise<void> {
  * Useful after importing CSVs from a second/third account.
  */
 export async function redetectAllTransfers(): Promise<number> {
+  // Roll back goal funding from the links we're about to reset
+  const linked = await prisma.transaction.findMany({
+    where: { isTransfer: true, linkedTransactionId: { not: null } },
+    select: { id: true },
+  });
+  await removeTransferContributions(linked.map((t) => t.id));
+
   // Reset all transfer flags first
   await prisma.transaction.updateMany({
     where: { isTransfer: true, linkedTransactionId: { not: null } },
@@ -274,3 +290,22 @@ export async function redetectAllTransfers(): Promise<number> {
   }
   return total;
 }
+
+/**
+ * Unlink a transfer pair, clearing the transfer flag on both sides and
+ * rolling back any goal contribution the transfer funded.
+ */
+export async function unlinkTransfer(transactionId: string): Promise<boolean> {
+  const tx = await prisma.transaction.findUnique({
+    where: { id: transactionId },
+  });
+  if (!tx?.linkedTransactionId) return false;
+
+  const ids = [tx.id, tx.linkedTransactionId];
+  await removeTransferContributions(ids);
+  await prisma.transaction.updateMany({
+    where: { id: { in: ids } },
+    data: { isTransfer: false, linkedTransactionId: null },
+  });
+  return true;
+}
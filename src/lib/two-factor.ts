@@ -0,0 +1,51 @@
+import { prisma } from "./db";
+import { redeemRecoveryCode, verifyTotp } from "./totp";
+import type { User } from "@prisma/client";
+
+/**
+ * Optional per-user two-factor sign-in. A user's totpSecret is set when
+ * they start enrolling, but 2FA only applies once totpEnabledAt is set,
+ * after they've proved their app produces the right codes.
+ */
+
+export function twoFactorEnabled(user: User): boolean {
+  return user.totpEnabledAt !== null && user.totpSecret !== null;
+}
+
+export function recoveryCodeHashes(user: User): string[] {
+  return user.recoveryCodes ? JSON.parse(user.recoveryCodes) : [];
+}
+
+/**
+ * Check a second factor: a code from the authenticator app, or one of the
+ * user's recovery codes, which is then used up. Accepted app codes can't
+ * be used again. Both updates are conditional on nothing having changed
+ * since `user` was read, so a code raced in by two requests only passes
+ * once.
+ */
+export async function checkSecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret || !user.totpEnabledAt || !code) return false;
+
+  const step = verifyTotp(user.totpSecret, code, user.totpLastStep);
+  if (step !== null) {
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }],
+      },
+      data: { totpLastStep: step },
+    });
+    return count > 0;
+  }
+
+  const remaining = redeemRecoveryCode(recoveryCodeHashes(user), code);
+  if (remaining) {
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, recoveryCodes: user.recoveryCodes },
+      data: { recoveryCodes: JSON.stringify(remaining) },
+    });
+    return count > 0;
+  }
+
+  return false;
+}
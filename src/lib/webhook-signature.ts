@@ -0,0 +1,66 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Basiq webhook signatures, kept free of app imports so scripts can sign
+ * test deliveries with the same code the app verifies them with.
+ *
+ * Deliveries are signed the Svix way: `webhook-signature` holds one or more
+ * space-separated `v1,<base64 HMAC-SHA256>` entries over
+ * `<webhook-id>.<webhook-timestamp>.<raw body>`, keyed with the secret
+ * (a `whsec_` secret is base64 after the prefix).
+ */
+
+// Deliveries timestamped further than this from now are rejected, so a
+// captured request can't be replayed later
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+export interface WebhookHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+function secretKey(secret: string): Buffer {
+  return secret.startsWith("whsec_")
+    ? Buffer.from(secret.slice("whsec_".length), "base64")
+    : Buffer.from(secret, "utf8");
+}
+
+export function signWebhook(
+  secret: string,
+  id: string,
+  timestamp: string,
+  body: string
+): string {
+  const mac = createHmac("sha256", secretKey(secret))
+    .update(`${id}.${timestamp}.${body}`)
+    .digest("base64");
+  return `v1,${mac}`;
+}
+
+/**
+ * Check a delivery's signature and timestamp. Returns why it was rejected,
+ * or null if it's genuine.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  headers: WebhookHeaders,
+  body: string,
+  now = Date.now()
+): string | null {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) return "Missing signature headers";
+
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt)) return "Invalid timestamp";
+  if (Math.abs(now / 1000 - sentAt) > WEBHOOK_TOLERANCE_SECONDS) {
+    return "Timestamp outside tolerance";
+  }
+
+  const expected = Buffer.from(signWebhook(secret, id, timestamp, body));
+  const matches = signature.split(" ").some((candidate) => {
+    const given = Buffer.from(candidate);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  });
+  return matches ? null : "Invalid signature";
+}
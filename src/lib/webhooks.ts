@@ -0,0 +1,128 @@
+import { createHash } from "crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { enqueueJob } from "./jobs";
+import type { SyncJobPayload } from "./sync";
+import type { WebhookEvent } from "@prisma/client";
+
+/**
+ * Basiq webhook handling. Signatures are checked in ./webhook-signature.
+ */
+
+export interface BasiqWebhookPayload {
+  id?: string;
+  eventType?: string;
+  eventTypeId?: string;
+  connectionId?: string;
+  userId?: string;
+  status?: string;
+  links?: { eventEntity?: string };
+}
+
+export function webhookEventType(payload: BasiqWebhookPayload): string {
+  return payload.eventType || payload.eventTypeId || "unknown";
+}
+
+// Older payloads name the connection directly; newer ones link to it
+function basiqConnectionId(payload: BasiqWebhookPayload): string | null {
+  if (payload.connectionId) return payload.connectionId;
+  const match = payload.links?.eventEntity?.match(/\/connections\/([^/?]+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Store a delivery once per event id. A redelivery of an event that has
+ * already been processed, or is being stored by a concurrent delivery,
+ * comes back as a duplicate; one whose processing failed is returned so it
+ * can be tried again.
+ */
+export async function recordWebhookEvent(
+  eventId: string | null,
+  body: string,
+  payload: BasiqWebhookPayload
+): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+  const id =
+    eventId || payload.id || createHash("sha256").update(body).digest("hex");
+
+  const existing = await prisma.webhookEvent.findUnique({
+    where: { eventId: id },
+  });
+  if (existing) {
+    return { event: existing, duplicate: existing.processedAt !== null };
+  }
+
+  try {
+    const event = await prisma.webhookEvent.create({
+      data: { eventId: id, eventType: webhookEventType(payload), payload: body },
+    });
+    return { event, duplicate: false };
+  } catch (err) {
+    // A concurrent delivery of the same event stored it first; that one
+    // handles it, and Basiq redelivers if it fails
+    if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2002") {
+      const event = await prisma.webhookEvent.findUniqueOrThrow({ where: { eventId: id } });
+      return { event, duplicate: true };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Act on a stored event and record the outcome on it. Throws if handling
+ * failed, after saving the error.
+ */
+export async function processWebhookEvent(event: WebhookEvent): Promise<void> {
+  const payload = JSON.parse(event.payload) as BasiqWebhookPayload;
+
+  try {
+    await handleEvent(event.eventType, payload);
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: { processedAt: new Date(), error: null, attempts: { increment: 1 } },
+    });
+  } catch (err) {
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        error: err instanceof Error ? err.message : String(err),
+        attempts: { increment: 1 },
+      },
+    });
+    throw err;
+  }
+}
+
+async function handleEvent(
+  eventType: string,
+  payload: BasiqWebhookPayload
+): Promise<void> {
+  const connectionId = basiqConnectionId(payload);
+  const conn = connectionId
+    ? await prisma.bankConnection.findFirst({
+        where: { basiqConnectionId: connectionId, status: { not: "deleted" } },
+      })
+    : null;
+
+  switch (eventType) {
+    case "connection.status.changed": {
+      if (!conn) return;
+      // Anything but active means the bank wants the user to log in again
+      await prisma.bankConnection.update({
+        where: { id: conn.id },
+        data: { status: payload.status === "active" ? "active" : "reauth_required" },
+      });
+      return;
+    }
+
+    case "transaction.updated":
+    case "transactions.updated": {
+      if (!conn || conn.status !== "active") return;
+      const job: SyncJobPayload = { trigger: "webhook", connectionId: conn.id };
+      await enqueueJob("sync", { ...job });
+      return;
+    }
+
+    default:
+      console.log(`Unhandled webhook event: ${eventType}`);
+  }
+}
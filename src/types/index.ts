@@ -8,6 +8,34 @@ export interface AuthUser {
   role: string;
 }
 
+export interface FamilyMember extends AuthUser {
+  createdAt: string;
+}
+
+// A signed-in device
+export interface SessionItem {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  // The session making the request
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // Set up but not yet confirmed with a code
+  pending: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Shown once while enrolling an authenticator app
+export interface TwoFactorSetup {
+  secret: string;
+  uri: string;
+}
+
 // Bank Connection
 export interface BankConnectionInfo {
   id: string;
@@ -16,6 +44,22 @@ export interface BankConnectionInfo {
   status: string;
   lastSyncAt: string | null;
   accountCount: number;
+  lastSuccess: SyncRunInfo | null;
+  lastFailure: SyncRunInfo | null;
+  // Basiq can't refresh it until the account holder consents again
+  needsReconsent: boolean;
+}
+
+export interface SyncRunInfo {
+  id: string;
+  trigger: string;
+  status: "running" | "success" | "failed";
+  added: number;
+  updated: number;
+  merged: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
 }
 
 // Account
@@ -28,6 +72,8 @@ export interface AccountSummary {
   type: string;
   currency: string;
   institutionName: string;
+  // The family member whose spending this account is, if it isn't shared
+  ownerId: string | null;
 }
 
 // Transaction
@@ -38,17 +84,27 @@ export interface TransactionItem {
   cleanDescription: string | null;
   amount: number;
   direction: string;
+  // Pending card holds can change amount or disappear before they post
+  status: "pending" | "posted";
   categoryId: string | null;
   categoryName: string | null;
   categoryIcon: string | null;
   categoryColour: string | null;
   categorySource: string | null;
+  ruleId: string | null;
+  rulePattern: string | null;
   merchantName: string | null;
   accountName: string;
   isExcluded: boolean;
   isTransfer: boolean;
   linkedTransactionId: string | null;
+  // Set when an import couldn't tell this apart from an existing transaction
+  duplicateOfId: string | null;
   notes: string | null;
+  // Who spent it: chosen by hand, set by a rule or taken from the account owner
+  memberId: string | null;
+  memberName: string | null;
+  memberSource: "manual" | "rule" | "account" | null;
 }
 
 export interface TransactionFilters {
@@ -56,6 +112,8 @@ export interface TransactionFilters {
   toDate?: string;
   categoryId?: string;
   accountId?: string;
+  // A family member's id, or "unassigned" for shared spending
+  member?: string;
   direction?: "debit" | "credit";
   search?: string;
   isExcluded?: boolean;
@@ -63,6 +121,97 @@ export interface TransactionFilters {
   pageSize?: number;
 }
 
+// CSV import
+export interface ImportProfileInfo {
+  id: string;
+  name: string;
+}
+
+export type ImportColumn = "date" | "description" | "amount" | "credit" | "debit" | "balance";
+export type ImportDateFormat = "DD/MM/YYYY" | "YYYY-MM-DD" | "DD MMM YY" | "DD MMM YYYY";
+export type ImportSign = "signed" | "inverted" | "split";
+
+// A CSV column mapping by zero-based column position
+export interface ImportMapping {
+  hasHeader: boolean;
+  columns: Partial<Record<ImportColumn, number>>;
+  dateFormat: ImportDateFormat;
+  sign: ImportSign;
+}
+
+export interface ImportPreviewRow {
+  date: string;
+  description: string;
+  amount: number;
+  direction: string;
+  balance: number | null;
+}
+
+export interface ImportPreview {
+  format: "csv" | "ofx" | "qif";
+  // Bank profile, saved template or file format the preview was read with
+  source: string | null;
+  // CSV only: header cells (or "Column N"), the first raw rows, and the mapping used
+  columns: string[];
+  sample: string[][];
+  mapping: ImportMapping | null;
+  parsed: ImportPreviewRow[];
+  totalRows: number;
+  invalid: number;
+}
+
+export interface ImportBatchItem {
+  id: string;
+  accountId: string;
+  accountName: string | null;
+  userName: string | null;
+  fileName: string;
+  format: string;
+  source: string;
+  imported: number;
+  skipped: number;
+  invalid: number;
+  linkedTransfers: number;
+  balanceAfter: number | null;
+  rolledBackAt: string | null;
+  createdAt: string;
+}
+
+// An imported row adopted by a Basiq sync instead of being duplicated
+export interface ReconcileMatch {
+  transactionId: string;
+  basiqTransactionId: string;
+  accountName: string;
+  date: string;
+  amount: number;
+  direction: string;
+  importedDescription: string;
+  basiqDescription: string;
+  similarity: number;
+}
+
+// Background jobs
+export type JobStatus = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+// Running counts a job reports while it works, e.g. { parsed: 120, skipped: 4 }
+export type JobStats = Record<string, number>;
+
+export interface JobItem {
+  id: string;
+  type: string;
+  status: JobStatus;
+  progress: number;
+  message: string | null;
+  stats: JobStats | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
 // Category
 export interface CategoryItem {
   id: string;
@@ -75,6 +224,46 @@ export interface CategoryItem {
   children?: CategoryItem[];
 }
 
+export interface CategoryRuleItem {
+  id: string;
+  pattern: string;
+  categoryId: string | null;
+  categoryName: string | null;
+  categoryIcon: string | null;
+  priority: number;
+  // Conditions (null = any)
+  direction: string | null;
+  accountId: string | null;
+  accountName: string | null;
+  merchantPattern: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  dayOfMonthMin: number | null;
+  dayOfMonthMax: number | null;
+  // Actions besides category (null = leave unchanged)
+  setNotes: string | null;
+  setExcluded: boolean | null;
+  setTransfer: boolean | null;
+  setCleanDescription: string | null;
+  setMemberId: string | null;
+  setMemberName: string | null;
+  confidence: number;
+  source: string;
+  hitCount: number;
+  lastMatchedAt: string | null;
+  createdAt: string;
+}
+
+export interface RuleMatchPreview {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  direction: string;
+  accountName: string;
+  categoryName: string | null;
+}
+
 // Budget
 export interface BudgetItem {
   id: string;
@@ -85,6 +274,9 @@ export interface BudgetItem {
   amount: number;
   period: string;
   startDate: string;
+  // Set for a personal allowance, which counts only that member's spending
+  memberId: string | null;
+  memberName: string | null;
 }
 
 export interface BudgetVsActual {
@@ -92,12 +284,126 @@ export interface BudgetVsActual {
   categoryName: string;
   categoryIcon: string | null;
   categoryColour: string | null;
+  memberId: string | null;
+  memberName: string | null;
   budgetAmount: number;
   actualAmount: number;
   percentage: number;
   status: "on-track" | "warning" | "over-budget";
 }
 
+// Goals
+export interface GoalMilestoneItem {
+  id: string;
+  percentage: number;
+  reachedAt: string | null;
+  celebrated: boolean;
+}
+
+export interface GoalContributionItem {
+  id: string;
+  amount: number;
+  date: string;
+  source: string;
+  note: string | null;
+}
+
+export interface GoalItem {
+  id: string;
+  name: string;
+  targetAmount: number;
+  currentAmount: number;
+  percentage: number;
+  targetDate: string | null;
+  projectedDate: string | null;
+  horizon: string;
+  priority: number;
+  icon: string | null;
+  colour: string | null;
+  accountId: string | null;
+  isCompleted: boolean;
+  completedAt: string | null;
+  milestones: GoalMilestoneItem[];
+  recentContributions: GoalContributionItem[];
+}
+
+// AI advisor
+export interface AdvisorMessage {
+  role: "user" | "assistant";
+  content: string;
+  createdAt?: string;
+}
+
+export interface AdvisorChatItem {
+  id: string;
+  summary: string | null;
+  createdAt: string;
+  messages: AdvisorMessage[];
+}
+
+// Period snapshots
+export type PeriodType = "fortnight" | "month";
+export type CategoryGrade = "A" | "B" | "C" | "D";
+
+export interface CategorySnapshot {
+  categoryId: string;
+  categoryName: string;
+  categoryIcon: string | null;
+  budgetAmount: number;
+  actualAmount: number;
+  percentage: number;
+  grade: CategoryGrade;
+}
+
+export interface PeriodSnapshotItem {
+  id: string;
+  periodType: PeriodType;
+  periodStart: string;
+  periodEnd: string;
+  totalIncome: number;
+  totalExpenses: number;
+  netSavings: number;
+  healthScore: number;
+  categoryBreakdown: CategorySnapshot[];
+  wasUnderBudget: boolean;
+  createdAt: string;
+}
+
+// Health score
+export type HealthComponentKey =
+  | "budgetAdherence"
+  | "savingsRate"
+  | "goalProgress"
+  | "emergencyFund"
+  | "consistency";
+
+export interface HealthScoreComponent {
+  key: HealthComponentKey;
+  label: string;
+  weight: number;
+  score: number;
+  explanation: string;
+}
+
+export interface HealthScore {
+  score: number;
+  periodType: PeriodType;
+  periodStart: string;
+  periodEnd: string;
+  components: HealthScoreComponent[];
+}
+
+// Achievements
+export interface AchievementItem {
+  id: string;
+  key: string;
+  type: string;
+  title: string;
+  description: string | null;
+  earnedAt: string;
+  seen: boolean;
+}
+
 // Dashboard
 export interface DashboardData {
   budgetStatus: BudgetVsActual[];
@@ -116,6 +422,30 @@ export interface PeriodSummary {
   net: number;
 }
 
+// Audit log
+export type AuditEntityType = "transaction" | "account" | "category" | "rule";
+export type AuditValue = string | number | boolean | null;
+
+// One field's before and after. Ids (category, member) also keep the name
+// they had at the time, so history still reads after a rename or delete.
+export interface AuditChange {
+  from: AuditValue;
+  to: AuditValue;
+  fromLabel?: string | null;
+  toLabel?: string | null;
+}
+
+export interface AuditEntryItem {
+  id: string;
+  userId: string | null;
+  userName: string | null;
+  entityType: AuditEntityType;
+  entityId: string;
+  action: string;
+  changes: Record<string, AuditChange>;
+  createdAt: string;
+}
+
 // Basiq types
 export interface BasiqTokenResponse {
   access_token: string;
@@ -138,7 +468,10 @@ export interface BasiqJobStep {
   status: string;
   result?: {
     type: string;
-    url: string;
+    url?: string;
+    code?: string;
+    title?: string;
+    detail?: string;
   };
 }
 
@@ -166,8 +499,10 @@ export interface BasiqTransaction {
   description: string;
   direction: string;
   institution: string;
-  postDate: string;
-  transactionDate: string;
+  status: "pending" | "posted";
+  // Pending transactions have no postDate yet
+  postDate: string | null;
+  transactionDate: string | null;
   enrich?: {
     merchant?: {
       businessName: string;